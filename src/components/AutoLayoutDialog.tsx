@@ -0,0 +1,181 @@
+import { useMemo, useState } from "react";
+import { Check, Wand2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { resolvePosterSize, type Edges, type PosterSize, type SizeUnit } from "@/lib/layout";
+import type { PaperSize } from "@/lib/paper";
+import { suggestLayouts, type LayoutGoal, type LayoutSuggestion } from "@/lib/suggestions";
+
+type GoalKind = LayoutGoal['kind'];
+
+interface AutoLayoutDialogProps {
+  imageWidth: number;
+  imageHeight: number;
+  paper: PaperSize;
+  margins: Edges;
+  overlap: number;
+  initialSize: PosterSize;
+  initialDpi: number;
+  onApply: (suggestion: LayoutSuggestion) => void;
+}
+
+export const AutoLayoutDialog = ({
+  imageWidth,
+  imageHeight,
+  paper,
+  margins,
+  overlap,
+  initialSize,
+  initialDpi,
+  onApply
+}: AutoLayoutDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [goalKind, setGoalKind] = useState<GoalKind>('size');
+  const [posterSize, setPosterSize] = useState<PosterSize>(initialSize);
+  const [minDpi, setMinDpi] = useState(initialDpi);
+
+  const suggestions = useMemo(() => {
+    if (!open) return [];
+    let goal: LayoutGoal;
+    if (goalKind === 'size') {
+      if (!(posterSize.value > 0)) return [];
+      goal = { kind: 'size', ...resolvePosterSize(posterSize, imageWidth, imageHeight) };
+    } else {
+      if (!(minDpi > 0)) return [];
+      goal = { kind: 'dpi', minDpi };
+    }
+    return suggestLayouts({ imageWidth, imageHeight, paper, margins, overlap }, goal);
+  }, [open, goalKind, posterSize, minDpi, imageWidth, imageHeight, paper, margins, overlap]);
+
+  const handleApply = (suggestion: LayoutSuggestion) => {
+    onApply(suggestion);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full">
+          <Wand2 className="h-4 w-4 mr-2" />
+          Layout automático
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Layout automático</DialogTitle>
+          <DialogDescription>
+            Compara retrato e paisagem em {paper.name} e sugere as grades com menos folhas e menos desperdício.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Tabs value={goalKind} onValueChange={(value) => setGoalKind(value as GoalKind)}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="size">Tamanho alvo</TabsTrigger>
+              <TabsTrigger value="dpi">Resolução mínima</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          {goalKind === 'size' ? (
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <Label htmlFor="autoDimension">Dimensão</Label>
+                <Select
+                  value={posterSize.dimension}
+                  onValueChange={(value: PosterSize['dimension']) => setPosterSize(prev => ({ ...prev, dimension: value }))}
+                >
+                  <SelectTrigger id="autoDimension">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="width">Largura</SelectItem>
+                    <SelectItem value="height">Altura</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="autoValue">Valor</Label>
+                <Input
+                  id="autoValue"
+                  type="number"
+                  min="1"
+                  step="0.1"
+                  value={posterSize.value}
+                  onChange={(e) => setPosterSize(prev => ({ ...prev, value: parseFloat(e.target.value) || 0 }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="autoUnit">Unidade</Label>
+                <Select
+                  value={posterSize.unit}
+                  onValueChange={(value: SizeUnit) => setPosterSize(prev => ({ ...prev, unit: value }))}
+                >
+                  <SelectTrigger id="autoUnit">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="cm">cm</SelectItem>
+                    <SelectItem value="in">pol</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          ) : (
+            <div>
+              <Label htmlFor="autoDpi">Resolução mínima (DPI)</Label>
+              <Input
+                id="autoDpi"
+                type="number"
+                min="1"
+                value={minDpi}
+                onChange={(e) => setMinDpi(parseInt(e.target.value) || 0)}
+              />
+            </div>
+          )}
+
+          {suggestions.length > 0 ? (
+            <ul className="space-y-2">
+              {suggestions.map((suggestion, index) => (
+                <li
+                  key={`${suggestion.orientation}-${suggestion.horizontal}x${suggestion.vertical}-${suggestion.scale}`}
+                  className="flex items-center justify-between gap-3 rounded-lg border p-3"
+                >
+                  <div className="text-sm">
+                    <p className="font-medium">
+                      {suggestion.horizontal} × {suggestion.vertical} páginas •{' '}
+                      {suggestion.orientation === 'portrait' ? 'Retrato' : 'Paisagem'}
+                      {index === 0 && <span className="ml-2 text-xs text-success">Recomendado</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {(suggestion.posterWidth / 10).toFixed(1)} × {(suggestion.posterHeight / 10).toFixed(1)} cm •{' '}
+                      {Math.round(suggestion.dpi)} DPI • {Math.round(suggestion.waste * 100)}% de desperdício
+                    </p>
+                  </div>
+                  <Button size="sm" variant={index === 0 ? 'default' : 'outline'} onClick={() => handleApply(suggestion)}>
+                    <Check className="h-4 w-4 mr-1" />
+                    Usar
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              Informe um objetivo para ver as sugestões.
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Download, Ruler } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import {
+  buildCalibrationPdf,
+  calibrationFromMeasurement,
+  calibrationSquareSize,
+  type PrinterCalibration
+} from "@/lib/calibration";
+import type { PageSetup } from "@/lib/layout";
+
+interface CalibrationDialogProps {
+  page: PageSetup;
+  printerName: string;
+  calibration?: PrinterCalibration;
+  onChange: (calibration: PrinterCalibration | null) => void;
+}
+
+const formatScale = (scale: number) => `${((scale - 1) * 100).toFixed(2)}%`;
+
+export const CalibrationDialog = ({ page, printerName, calibration, onChange }: CalibrationDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [measuredWidth, setMeasuredWidth] = useState('');
+  const [measuredHeight, setMeasuredHeight] = useState('');
+  const size = calibrationSquareSize(page);
+
+  const downloadSheet = () => {
+    const pdf = buildCalibrationPdf(page);
+    pdf.save(`calibracao-${page.paper.id}-${page.orientation}.pdf`);
+    toast.success("Folha de calibração baixada!");
+  };
+
+  const handleSave = () => {
+    const width = parseFloat(measuredWidth);
+    const height = parseFloat(measuredHeight);
+
+    // Erros acima de 20% indicam medida errada, não escala da impressora
+    if (!(width > size * 0.8 && width < size * 1.2) || !(height > size * 0.8 && height < size * 1.2)) {
+      toast.error(`Informe as medidas do quadrado de ${size} mm.`);
+      return;
+    }
+
+    onChange(calibrationFromMeasurement(size, width, height));
+    setOpen(false);
+    toast.success("Calibração salva!");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-auto px-0 text-xs">
+          <Ruler className="h-3 w-3 mr-1" />
+          {calibration ? 'Calibrada' : 'Calibrar escala'}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Calibrar {printerName}</DialogTitle>
+          <DialogDescription>
+            Imprima a folha de calibração, meça o quadrado com uma régua e informe os valores.
+            Os próximos PDFs serão ajustados para sair no tamanho exato.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Button variant="outline" className="w-full" onClick={downloadSheet}>
+            <Download className="h-4 w-4 mr-2" />
+            Baixar folha de calibração
+          </Button>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="measuredWidth">Largura medida (mm)</Label>
+              <Input
+                id="measuredWidth"
+                type="number"
+                step="0.1"
+                placeholder={`${size}`}
+                value={measuredWidth}
+                onChange={(e) => setMeasuredWidth(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="measuredHeight">Altura medida (mm)</Label>
+              <Input
+                id="measuredHeight"
+                type="number"
+                step="0.1"
+                placeholder={`${size}`}
+                value={measuredHeight}
+                onChange={(e) => setMeasuredHeight(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {calibration && (
+            <p className="text-sm text-muted-foreground">
+              Compensação atual: horizontal {formatScale(calibration.scaleX)}, vertical {formatScale(calibration.scaleY)}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          {calibration && (
+            <Button variant="outline" onClick={() => onChange(null)}>
+              Remover calibração
+            </Button>
+          )}
+          <Button onClick={handleSave}>Salvar calibração</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,195 @@
+import { useEffect, useRef, useState } from "react";
+import { ZoomIn, ZoomOut, Maximize } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { fitCropToAspect, fullCrop, moveCrop, resizeCrop, type CropHandle } from "@/lib/crop";
+import type { Rect } from "@/lib/layout";
+import { orientationMatrix, orientedSize, type ImageTransform } from "@/lib/transform";
+
+const MAX_ZOOM = 5;
+const HANDLES: CropHandle[] = ['nw', 'ne', 'sw', 'se'];
+
+const HANDLE_POSITION: Record<CropHandle, string> = {
+  nw: '-left-1.5 -top-1.5 cursor-nwse-resize',
+  ne: '-right-1.5 -top-1.5 cursor-nesw-resize',
+  sw: '-left-1.5 -bottom-1.5 cursor-nesw-resize',
+  se: '-right-1.5 -bottom-1.5 cursor-nwse-resize'
+};
+
+type DragKind = 'pan' | 'move' | CropHandle;
+
+interface DragState {
+  kind: DragKind;
+  startX: number;
+  startY: number;
+  startCrop: Rect;
+  startPan: { x: number; y: number };
+}
+
+interface CropEditorProps {
+  imageUrl: string;
+  /** Dimensões do arquivo; o recorte é medido na imagem já girada/espelhada */
+  naturalWidth: number;
+  naturalHeight: number;
+  transform: ImageTransform;
+  crop: Rect | null;
+  /** Proporção (largura / altura) travada durante o redimensionamento */
+  aspect?: number;
+  onChange: (crop: Rect) => void;
+}
+
+export const CropEditor = ({
+  imageUrl,
+  naturalWidth,
+  naturalHeight,
+  transform,
+  crop,
+  aspect,
+  onChange
+}: CropEditorProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [zoom, setZoom] = useState(1);
+  const [pan, setPan] = useState({ x: 0, y: 0 });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const { width: imageWidth, height: imageHeight } = orientedSize(naturalWidth, naturalHeight, transform);
+  const rect = crop ?? fullCrop(imageWidth, imageHeight);
+  const scale = size.width ? Math.min(size.width / imageWidth, size.height / imageHeight) * zoom : 0;
+
+  // Canto superior esquerdo da imagem dentro do editor, em pixels de tela
+  const originX = (size.width - imageWidth * scale) / 2 + pan.x;
+  const originY = (size.height - imageHeight * scale) / 2 + pan.y;
+
+  const toImage = (clientX: number, clientY: number) => {
+    const bounds = containerRef.current!.getBoundingClientRect();
+    return {
+      x: (clientX - bounds.left - originX) / scale,
+      y: (clientY - bounds.top - originY) / scale
+    };
+  };
+
+  const startDrag = (kind: DragKind) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    containerRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = { kind, startX: e.clientX, startY: e.clientY, startCrop: rect, startPan: pan };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || !scale) return;
+
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+
+    if (drag.kind === 'pan') {
+      setPan({ x: drag.startPan.x + dx, y: drag.startPan.y + dy });
+    } else if (drag.kind === 'move') {
+      onChange(moveCrop(drag.startCrop, dx / scale, dy / scale, imageWidth, imageHeight));
+    } else {
+      onChange(resizeCrop(drag.startCrop, drag.kind, toImage(e.clientX, e.clientY), imageWidth, imageHeight, aspect));
+    }
+  };
+
+  const endDrag = (e: React.PointerEvent) => {
+    dragRef.current = null;
+    containerRef.current?.releasePointerCapture(e.pointerId);
+  };
+
+  const changeZoom = (value: number) => {
+    const next = Math.min(Math.max(value, 1), MAX_ZOOM);
+    // Sem zoom a imagem volta a ficar centralizada
+    if (next === 1) setPan({ x: 0, y: 0 });
+    setZoom(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div
+        ref={containerRef}
+        className="relative h-64 w-full overflow-hidden rounded-lg border bg-muted touch-none select-none cursor-grab active:cursor-grabbing"
+        onPointerDown={startDrag('pan')}
+        onPointerMove={handlePointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+      >
+        {scale > 0 && (
+          <>
+            <img
+              src={imageUrl}
+              alt="Imagem original"
+              draggable={false}
+              className="absolute max-w-none pointer-events-none origin-top-left"
+              style={{
+                left: originX,
+                top: originY,
+                width: naturalWidth,
+                height: naturalHeight,
+                transform: `scale(${scale}) ${orientationMatrix(naturalWidth, naturalHeight, transform)}`
+              }}
+            />
+
+            {/* Área recortada; a sombra escurece o que fica de fora */}
+            <div
+              className="absolute border-2 border-primary cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.45)]"
+              style={{
+                left: originX + rect.x * scale,
+                top: originY + rect.y * scale,
+                width: rect.width * scale,
+                height: rect.height * scale
+              }}
+              onPointerDown={startDrag('move')}
+            >
+              {HANDLES.map((handle) => (
+                <div
+                  key={handle}
+                  className={`absolute h-3 w-3 rounded-sm border border-primary bg-background ${HANDLE_POSITION[handle]}`}
+                  onPointerDown={startDrag(handle)}
+                />
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => changeZoom(zoom - 0.5)}>
+          <ZoomOut className="h-4 w-4" />
+        </Button>
+        <Slider
+          min={1}
+          max={MAX_ZOOM}
+          step={0.1}
+          value={[zoom]}
+          onValueChange={([value]) => changeZoom(value)}
+        />
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => changeZoom(zoom + 0.5)}>
+          <ZoomIn className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title="Usar a imagem inteira"
+          onClick={() => {
+            const full = fullCrop(imageWidth, imageHeight);
+            onChange(aspect ? fitCropToAspect(full, aspect, imageWidth, imageHeight) : full);
+            changeZoom(1);
+          }}
+        >
+          <Maximize className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import type { PaperSize } from "@/lib/paper";
+
+type PaperUnit = 'mm' | 'in';
+
+const MM_PER_PAPER_UNIT: Record<PaperUnit, number> = { mm: 1, in: 25.4 };
+
+interface CustomPaperDialogProps {
+  papers: PaperSize[];
+  onAdd: (name: string, width: number, height: number) => PaperSize;
+  onRemove: (id: string) => void;
+  onSelect: (id: string) => void;
+}
+
+export const CustomPaperDialog = ({ papers, onAdd, onRemove, onSelect }: CustomPaperDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [width, setWidth] = useState('');
+  const [height, setHeight] = useState('');
+  const [unit, setUnit] = useState<PaperUnit>('mm');
+
+  const handleAdd = () => {
+    const widthMm = parseFloat(width) * MM_PER_PAPER_UNIT[unit];
+    const heightMm = parseFloat(height) * MM_PER_PAPER_UNIT[unit];
+
+    if (!(widthMm > 0) || !(heightMm > 0)) {
+      toast.error("Informe largura e altura válidas.");
+      return;
+    }
+
+    const label = name.trim() || `${width} × ${height} ${unit}`;
+    const paper = onAdd(label, widthMm, heightMm);
+    onSelect(paper.id);
+    setName('');
+    setWidth('');
+    setHeight('');
+    setOpen(false);
+    toast.success(`Tamanho "${label}" adicionado!`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-auto px-0 text-xs">
+          <Plus className="h-3 w-3 mr-1" />
+          Tamanho personalizado
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Tamanhos de papel personalizados</DialogTitle>
+          <DialogDescription>
+            Os tamanhos ficam salvos neste navegador e aparecem na lista de formatos.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="customPaperName">Nome</Label>
+            <Input
+              id="customPaperName"
+              placeholder="Ex.: Foto 13×19"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <Label htmlFor="customPaperWidth">Largura</Label>
+              <Input
+                id="customPaperWidth"
+                type="number"
+                min="1"
+                step="0.1"
+                value={width}
+                onChange={(e) => setWidth(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="customPaperHeight">Altura</Label>
+              <Input
+                id="customPaperHeight"
+                type="number"
+                min="1"
+                step="0.1"
+                value={height}
+                onChange={(e) => setHeight(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="customPaperUnit">Unidade</Label>
+              <Select value={unit} onValueChange={(value: PaperUnit) => setUnit(value)}>
+                <SelectTrigger id="customPaperUnit">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="mm">mm</SelectItem>
+                  <SelectItem value="in">pol</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {papers.length > 0 && (
+            <div className="space-y-2">
+              <Label>Salvos</Label>
+              <ul className="space-y-1">
+                {papers.map((paper) => (
+                  <li key={paper.id} className="flex items-center justify-between text-sm">
+                    <span>
+                      {paper.name}
+                      <span className="text-muted-foreground ml-2">
+                        {paper.width.toFixed(0)} × {paper.height.toFixed(0)} mm
+                      </span>
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => onRemove(paper.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleAdd}>
+            <Plus className="h-4 w-4 mr-2" />
+            Adicionar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,19 +1,94 @@
-import { useState, useRef, useCallback } from "react";
-import { Upload, Download, Grid, Image as ImageIcon, Settings, Eye, RotateCcw } from "lucide-react";
+import { useState, useRef, useCallback, useMemo, useEffect } from "react";
+import { Upload, Download, Grid, Image as ImageIcon, Settings, Eye, RotateCcw, RotateCw, FlipHorizontal, FlipVertical, AlertTriangle, Wand2, FileArchive, Printer } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { toast } from "sonner";
-import jsPDF from "jspdf";
 import { Header } from "@/components/Header";
 import { Footer } from "@/components/Footer";
-
-interface GridConfig {
-  horizontal: number;
-  vertical: number;
-}
+import { CustomPaperDialog } from "@/components/CustomPaperDialog";
+import { PrinterProfileDialog } from "@/components/PrinterProfileDialog";
+import { CalibrationDialog } from "@/components/CalibrationDialog";
+import { AutoLayoutDialog } from "@/components/AutoLayoutDialog";
+import { CropEditor } from "@/components/CropEditor";
+import { TaskProgress } from "@/components/TaskProgress";
+import { useCustomPapers } from "@/hooks/use-custom-papers";
+import { usePrinterProfiles } from "@/hooks/use-printer-profiles";
+import { usePrinterCalibrations } from "@/hooks/use-printer-calibrations";
+import { isAbortError, useRenderWorker } from "@/hooks/use-render-worker";
+import {
+  DEFAULT_PAPER_FORMAT,
+  PAPER_FORMATS,
+  PAPER_GROUPS,
+  DEFAULT_ROLL_PAPER,
+  ROLL_PAPER_ID,
+  findPaper,
+  rollPaperSize,
+  type Orientation,
+  type OrientationSetting,
+  type PaperFormat,
+  type PaperGroup,
+  type PaperSize,
+  type RollPaper
+} from "@/lib/paper";
+import { planRoll, stripDirection } from "@/lib/roll";
+import {
+  computeLayout,
+  gridCapacity,
+  gridForPosterSize,
+  resolvePosterSize,
+  tileCoordinate,
+  type GridConfig,
+  type PageSetup,
+  type PosterLayout,
+  type PosterSize,
+  type Rect,
+  type SizeUnit
+} from "@/lib/layout";
+import { fitCropToAspect, fullCrop, isFullCrop } from "@/lib/crop";
+import { browserAppliesExifOrientation, exifTransform } from "@/lib/exif";
+import {
+  IDENTITY_TRANSFORM,
+  flipTransform,
+  isIdentityTransform,
+  orientedSize,
+  rotateTransform,
+  type ImageTransform
+} from "@/lib/transform";
+import type { PdfOptions, TileFormat } from "@/lib/pdf";
+import { IDENTITY_CALIBRATION } from "@/lib/calibration";
+import { downloadBlob } from "@/lib/download";
+import { MAX_PDF_SIDE, ROLL_WIDTHS, plotterDpi, plotterLayout, plotterSheet, sheetFitsPdf, sheetFitsRoll } from "@/lib/plotter";
+import { blankTiles, estimatePdfSize, type RenderStage, type SliceJob, type TileImageFormat } from "@/lib/render";
+import { chooseOrientation, type LayoutSuggestion } from "@/lib/suggestions";
+import {
+  DEFAULT_DPI_THRESHOLDS,
+  dpiLevel,
+  effectiveDpi,
+  maxGridForDpi,
+  type DpiThresholds
+} from "@/lib/resolution";
+import {
+  DEFAULT_PRINTER_PROFILE,
+  PRINTER_PROFILES,
+  findPrinterProfile,
+  orientMargins
+} from "@/lib/printers";
 
 interface ImageData {
   file: File;
@@ -22,25 +97,233 @@ interface ImageData {
   height: number;
 }
 
-type PaperFormat = 'a4' | 'letter' | 'a3' | 'tabloid';
-type Orientation = 'portrait' | 'landscape';
+type SizeMode = 'pages' | 'size';
+
+// Trabalho em andamento no worker, para a barra de progresso
+interface RenderTask {
+  kind: 'preview' | 'pdf' | 'zip' | 'plotter';
+  stage: RenderStage;
+  done: number;
+  total: number;
+  startedAt: number;
+}
+
+const TASK_STAGES: Record<RenderTask['kind'], RenderStage[]> = {
+  preview: ['slice'],
+  pdf: ['slice', 'pdf'],
+  zip: ['slice'],
+  plotter: ['slice']
+};
+
+const TASK_LABELS: Record<RenderTask['kind'], string> = {
+  preview: 'Gerando pré-visualização',
+  pdf: 'Gerando PDF',
+  zip: 'Gerando ZIP',
+  plotter: 'Gerando PDF para plotter'
+};
+
+const STAGE_LABELS: Record<RenderStage, string> = {
+  slice: 'Fatiando',
+  pdf: 'Montando PDF'
+};
+
+// Miniaturas da pré-visualização: suficientes para a tela, leves para gerar
+const PREVIEW_TILE_SIDE = 640;
+// Espera depois da última mudança antes de refazer a pré-visualização
+const PREVIEW_DEBOUNCE_MS = 400;
+// Fração máxima de tinta para considerar a página em branco
+const DEFAULT_BLANK_TOLERANCE = 0.005;
+const MAX_BLANK_TOLERANCE = 0.05;
 
-const PAPER_FORMATS = {
-  a4: { width: 210, height: 297, name: 'A4' },
-  letter: { width: 216, height: 279, name: 'Carta (Letter)' },
-  a3: { width: 297, height: 420, name: 'A3' },
-  tabloid: { width: 279, height: 432, name: 'Tabloid' }
+// Motivo vindo do worker (ex.: imagem grande demais), mostrado abaixo do erro
+const errorDetail = (error: unknown) => (error instanceof Error ? { description: error.message } : undefined);
+
+const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const taskProgress = ({ kind, stage, done, total }: RenderTask) => {
+  const stages = TASK_STAGES[kind];
+  return (stages.indexOf(stage) + (total ? done / total : 0)) / stages.length;
+};
+
+const orientationName = (orientation: Orientation, auto: boolean) => {
+  const name = orientation === 'portrait' ? 'Retrato' : 'Paisagem';
+  return auto ? `${name} (auto)` : name;
 };
 
 export const PosterCreator = () => {
   const [imageData, setImageData] = useState<ImageData | null>(null);
-  const [gridConfig, setGridConfig] = useState<GridConfig>({ horizontal: 2, vertical: 2 });
+  const [transform, setTransform] = useState<ImageTransform>(IDENTITY_TRANSFORM);
+  const [crop, setCrop] = useState<Rect | null>(null);
+  const [cropLocked, setCropLocked] = useState(false);
+  const [gridConfig, setGridConfig] = useState<GridConfig>({ horizontal: 2, vertical: 2, overlap: 10 });
   const [previewData, setPreviewData] = useState<string[]>([]);
+  const [previewLayout, setPreviewLayout] = useState<PosterLayout | null>(null);
+  // Fração de cada página da pré-visualização que recebe tinta
+  const [previewCoverage, setPreviewCoverage] = useState<number[]>([]);
+  // Configuração que gerou a pré-visualização na tela
+  const [previewJob, setPreviewJob] = useState<SliceJob | null>(null);
+  const [pdfOptions, setPdfOptions] = useState<PdfOptions>({
+    shadeOverlap: true,
+    assemblyMarks: true,
+    coverPage: true,
+    format: 'auto',
+    jpegQuality: 0.9
+  });
+  const [skipBlank, setSkipBlank] = useState(false);
+  const [blankTolerance, setBlankTolerance] = useState(DEFAULT_BLANK_TOLERANCE);
+  const [zipFormat, setZipFormat] = useState<TileImageFormat>('png');
+  const [rollWidth, setRollWidth] = useState<number | null>(null);
+  // Bytes de cada página codificada, medidos no worker a partir das miniaturas
+  const [tileBytes, setTileBytes] = useState<number[] | null>(null);
+  const [task, setTask] = useState<RenderTask | null>(null);
   const [selectedPreview, setSelectedPreview] = useState<number | null>(null);
-  const [paperFormat, setPaperFormat] = useState<PaperFormat>('a4');
-  const [orientation, setOrientation] = useState<Orientation>('portrait');
+  const [paperFormat, setPaperFormat] = useState<PaperFormat>(DEFAULT_PAPER_FORMAT);
+  const [orientationSetting, setOrientationSetting] = useState<OrientationSetting>('portrait');
+  const [printerProfileId, setPrinterProfileId] = useState(DEFAULT_PRINTER_PROFILE);
+  const [dpiThresholds, setDpiThresholds] = useState<DpiThresholds>(DEFAULT_DPI_THRESHOLDS);
+  const [sizeMode, setSizeMode] = useState<SizeMode>('pages');
+  const [posterSize, setPosterSize] = useState<PosterSize>({ dimension: 'width', value: 100, unit: 'cm' });
+  const [rollPaper, setRollPaper] = useState<RollPaper>(DEFAULT_ROLL_PAPER);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const renderWorker = useRenderWorker();
+
+  const { papers: customPapers, addPaper, removePaper } = useCustomPapers();
+  const isRoll = paperFormat === ROLL_PAPER_ID;
+  const paper = useMemo(
+    () => (isRoll ? rollPaperSize(rollPaper) : findPaper(paperFormat, customPapers)),
+    [isRoll, rollPaper, paperFormat, customPapers]
+  );
+
+  // Formatos agrupados por série para a lista de seleção
+  const paperGroups = useMemo(() => {
+    const groups = new Map<PaperGroup, PaperSize[]>();
+    for (const format of [...Object.values(PAPER_FORMATS), rollPaperSize(rollPaper), ...customPapers]) {
+      groups.set(format.group, [...(groups.get(format.group) ?? []), format]);
+    }
+    return Array.from(groups);
+  }, [rollPaper, customPapers]);
+
+  const handleRemovePaper = useCallback((id: string) => {
+    removePaper(id);
+    setPaperFormat(prev => prev === id ? DEFAULT_PAPER_FORMAT : prev);
+  }, [removePaper]);
+
+  const { profiles: customProfiles, addProfile, removeProfile } = usePrinterProfiles();
+  const printerProfile = useMemo(
+    () => findPrinterProfile(printerProfileId, customProfiles),
+    [printerProfileId, customProfiles]
+  );
+
+  const { calibrations, setCalibration } = usePrinterCalibrations();
+  const calibration = calibrations[printerProfile.id];
+
+  const handleRemoveProfile = useCallback((id: string) => {
+    removeProfile(id);
+    setCalibration(id, null);
+    setPrinterProfileId(prev => prev === id ? DEFAULT_PRINTER_PROFILE : prev);
+  }, [removeProfile, setCalibration]);
+
+  // Dimensões da imagem já girada; recorte e layout trabalham nesse espaço
+  const imageSize = useMemo(() => {
+    if (!imageData) return null;
+    return orientedSize(imageData.width, imageData.height, transform);
+  }, [imageData, transform]);
+
+  // Região da imagem que vira pôster: o recorte ou a imagem inteira
+  const source = useMemo(() => {
+    if (!imageSize) return null;
+    return crop ?? fullCrop(imageSize.width, imageSize.height);
+  }, [imageSize, crop]);
+
+  // Tamanho final (mm) quando o pôster é definido pelas dimensões desejadas
+  const targetSize = useMemo(() => {
+    if (sizeMode !== 'size' || !source || !(posterSize.value > 0)) return null;
+    return resolvePosterSize(posterSize, source.width, source.height);
+  }, [sizeMode, source, posterSize]);
+
+  // Em rolo a página depende do pôster: faixas na largura do rolo e comprimento sob medida
+  const rollPlan = useMemo(() => {
+    if (!isRoll || !source) return null;
+    return planRoll(
+      source.width,
+      source.height,
+      rollPaper,
+      stripDirection(orientationSetting, source.width, source.height),
+      gridConfig.horizontal,
+      gridConfig.overlap,
+      printerProfile.margins,
+      targetSize
+    );
+  }, [isRoll, source, rollPaper, orientationSetting, gridConfig, printerProfile, targetSize]);
+
+  // Orientação efetiva: a escolhida ou, em "auto", a que imprime a maior área
+  const orientation = useMemo<Orientation>(() => {
+    if (rollPlan) return rollPlan.page.orientation;
+    if (orientationSetting !== 'auto') return orientationSetting;
+    if (!source) return 'portrait';
+    return chooseOrientation(
+      {
+        imageWidth: source.width,
+        imageHeight: source.height,
+        paper,
+        margins: printerProfile.margins,
+        overlap: gridConfig.overlap
+      },
+      gridConfig,
+      targetSize
+    );
+  }, [rollPlan, orientationSetting, source, paper, printerProfile, gridConfig, targetSize]);
+
+  // Página efetiva: papel, orientação e a área que a impressora consegue imprimir
+  const pageSetup = useMemo<PageSetup>(() => rollPlan?.page ?? {
+    paper,
+    orientation,
+    margins: orientMargins(printerProfile.margins, orientation)
+  }, [rollPlan, paper, orientation, printerProfile]);
+
+  // Grade efetiva: digitada pelo usuário ou calculada a partir do tamanho final
+  const layoutGrid = useMemo<GridConfig>(() => {
+    if (rollPlan) return rollPlan.grid;
+    if (!targetSize) return gridConfig;
+    return {
+      ...gridConfig,
+      ...gridForPosterSize(targetSize.width, targetSize.height, gridConfig.overlap, pageSetup)
+    };
+  }, [rollPlan, targetSize, gridConfig, pageSetup]);
+
+  // Com a trava, o recorte acompanha a proporção da grade escolhida
+  const cropAspect = useMemo(() => {
+    // Em rolo o comprimento da página segue o recorte, então não há proporção fixa
+    if (!cropLocked || sizeMode !== 'pages' || isRoll) return undefined;
+    const capacity = gridCapacity(gridConfig, gridConfig.overlap, pageSetup);
+    return capacity.width / capacity.height;
+  }, [cropLocked, sizeMode, isRoll, gridConfig, pageSetup]);
+
+  useEffect(() => {
+    if (!imageSize || !cropAspect) return;
+    setCrop(prev => {
+      const current = prev ?? fullCrop(imageSize.width, imageSize.height);
+      if (Math.abs(current.width / current.height - cropAspect) < 1e-3) return prev;
+      return fitCropToAspect(current, cropAspect, imageSize.width, imageSize.height);
+    });
+  }, [imageSize, cropAspect]);
+
+  // Aplica uma sugestão do layout automático: grade ampliada ou tamanho final fixo
+  const applySuggestion = useCallback((suggestion: LayoutSuggestion) => {
+    setOrientationSetting(suggestion.orientation);
+    if (suggestion.scale === 'fit') {
+      setSizeMode('pages');
+      setGridConfig(prev => ({ ...prev, horizontal: suggestion.horizontal, vertical: suggestion.vertical }));
+    } else {
+      setSizeMode('size');
+      // Arredondar para baixo mantém a mesma grade e não reduz a resolução
+      setPosterSize({ dimension: 'width', value: Math.floor(suggestion.posterWidth * 10) / 100, unit: 'cm' });
+    }
+    toast.success(`Layout ${suggestion.horizontal} × ${suggestion.vertical} aplicado!`);
+  }, []);
 
   const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -54,131 +337,259 @@ export const PosterCreator = () => {
     const url = URL.createObjectURL(file);
     const img = new Image();
     
-    img.onload = () => {
+    img.onload = async () => {
+      const initial = await exifTransform(file);
       setImageData({
         file,
         url,
         width: img.naturalWidth,
         height: img.naturalHeight
       });
-      toast.success("Imagem carregada com sucesso!");
+      setTransform(initial);
+      setCrop(null);
+      toast.success(isIdentityTransform(initial)
+        ? "Imagem carregada com sucesso!"
+        : "Imagem carregada e girada conforme a orientação da câmera!");
     };
     
     img.src = url;
   }, []);
 
-  const generatePreview = useCallback(async () => {
-    if (!imageData || !canvasRef.current) return;
+  // Girar ou espelhar muda o espaço de coordenadas, então o recorte volta para a imagem inteira
+  const changeTransform = useCallback((update: (prev: ImageTransform) => ImageTransform) => {
+    setTransform(update);
+    setCrop(null);
+  }, []);
 
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+  // Recorte de cada página, já com as faixas de sobreposição
+  const layout = useMemo(() => {
+    if (!source) return null;
+    return computeLayout(
+      source.width,
+      source.height,
+      layoutGrid,
+      pageSetup,
+      rollPlan?.mmPerPixel ?? (targetSize ? targetSize.width / source.width : undefined)
+    );
+  }, [source, layoutGrid, pageSetup, rollPlan, targetSize]);
 
-    const img = new Image();
-    img.src = imageData.url;
+  const dpi = layout ? effectiveDpi(layout.mmPerPixel) : null;
+  const resolution = dpi === null ? null : dpiLevel(dpi, dpiThresholds);
 
-    await new Promise((resolve) => {
-      img.onload = resolve;
-    });
+  // Sugestões de grade máxima para voltar a cada limite de resolução
+  const dpiSuggestions = useMemo(() => {
+    // Em rolo a página é sob medida, então não há grade de folhas para sugerir
+    if (!source || !resolution || resolution === 'good' || isRoll) return [];
+    const limits = resolution === 'critical'
+      ? [dpiThresholds.critical, dpiThresholds.warning]
+      : [dpiThresholds.warning];
+    return limits.map((limit) => ({
+      dpi: limit,
+      grid: maxGridForDpi(limit, source.width, source.height, gridConfig.overlap, pageSetup),
+      width: source.width / limit * 2.54,
+      height: source.height / limit * 2.54
+    }));
+  }, [source, isRoll, resolution, dpiThresholds, gridConfig.overlap, pageSetup]);
 
-    const totalCols = gridConfig.horizontal;
-    const totalRows = gridConfig.vertical;
-    
-    // Calcular o tamanho de cada pedaço
-    const pieceWidth = imageData.width / totalCols;
-    const pieceHeight = imageData.height / totalRows;
-    
-    canvas.width = pieceWidth;
-    canvas.height = pieceHeight;
-
-    const pieces: string[] = [];
-
-    for (let row = 0; row < totalRows; row++) {
-      for (let col = 0; col < totalCols; col++) {
-        ctx.clearRect(0, 0, pieceWidth, pieceHeight);
-        
-        // Desenhar o pedaço da imagem
-        ctx.drawImage(
-          img,
-          col * pieceWidth, row * pieceHeight, pieceWidth, pieceHeight,
-          0, 0, pieceWidth, pieceHeight
-        );
-
-        pieces.push(canvas.toDataURL('image/png'));
-      }
+  // Um trabalho por vez; cancelar descarta o resultado sem tocar na pré-visualização atual
+  const jobRef = useRef<AbortController | null>(null);
+
+  const startTask = useCallback((kind: RenderTask['kind']) => {
+    jobRef.current?.abort();
+    const job = new AbortController();
+    jobRef.current = job;
+    setTask({ kind, stage: 'slice', done: 0, total: 0, startedAt: performance.now() });
+    return {
+      signal: job.signal,
+      onProgress: (done: number, total: number, stage: RenderStage) =>
+        setTask(prev => (prev && jobRef.current === job ? { ...prev, stage, done, total } : prev))
+    };
+  }, []);
+
+  const finishTask = useCallback((options: { signal: AbortSignal }) => {
+    if (jobRef.current?.signal !== options.signal) return;
+    jobRef.current = null;
+    setTask(null);
+  }, []);
+
+  const cancelTask = useCallback(() => {
+    jobRef.current?.abort();
+    jobRef.current = null;
+    setTask(null);
+    toast.info("Operação cancelada.");
+  }, []);
+
+  // Tudo que o worker precisa para fatiar a imagem no layout atual
+  const sliceJob = useMemo<SliceJob | null>(() => {
+    if (!imageData || !source || !layout) return null;
+    return {
+      image: imageData.file,
+      imageWidth: imageData.width,
+      imageHeight: imageData.height,
+      imageOrientation: browserAppliesExifOrientation() ? 'from-image' : 'none',
+      transform,
+      source,
+      layout
+    };
+  }, [imageData, transform, source, layout]);
+
+  const generatePreview = useCallback(async () => {
+    if (!sliceJob) return;
+
+    const { layout } = sliceJob;
+    const taskOptions = startTask('preview');
+
+    try {
+      const { pieces, coverage } = await renderWorker.slice({ ...sliceJob, maxTileSide: PREVIEW_TILE_SIDE }, taskOptions);
+
+      setPreviewData(pieces);
+      setPreviewCoverage(coverage);
+      setPreviewLayout(layout);
+      setPreviewJob(sliceJob);
+    } catch (error) {
+      if (!isAbortError(error)) toast.error("Não foi possível gerar a pré-visualização.", errorDetail(error));
+    } finally {
+      finishTask(taskOptions);
     }
+  }, [sliceJob, renderWorker, startTask, finishTask]);
 
-    setPreviewData(pieces);
-    toast.success("Pré-visualização gerada!");
-  }, [imageData, gridConfig]);
+  // A pré-visualização acompanha a configuração; durante a exportação ela espera
+  const previewStale = !!sliceJob && previewJob !== sliceJob;
+  const exporting = !!task && task.kind !== 'preview';
 
-  const generatePDF = useCallback(async () => {
-    if (!previewData.length) {
-      toast.error("Gere a pré-visualização primeiro!");
+  useEffect(() => {
+    if (!previewStale || exporting) return;
+    const timer = setTimeout(generatePreview, PREVIEW_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [previewStale, exporting, generatePreview]);
+
+  // Páginas em branco ficam fora do PDF e do ZIP; a numeração continua a da grade
+  const exportBlankTolerance = skipBlank ? blankTolerance : null;
+  const skippedTiles = useMemo(
+    () => blankTiles(previewCoverage, exportBlankTolerance),
+    [previewCoverage, exportBlankTolerance]
+  );
+
+  // As exportações pulam exatamente as páginas apagadas na pré-visualização, então
+  // esperam ela acompanhar a configuração atual
+  const waitingForPreview = exportBlankTolerance !== null && previewStale;
+
+  // As miniaturas só são codificadas de novo quando muda a compressão; o resto das
+  // opções apenas refaz a soma
+  const { estimateSizes } = renderWorker;
+  const estimateQuality = pdfOptions.format === 'png' ? 1 : pdfOptions.jpegQuality;
+
+  useEffect(() => {
+    if (!previewLayout || !previewData.length) {
+      setTileBytes(null);
       return;
     }
 
-    const paperConfig = PAPER_FORMATS[paperFormat];
-    
-    // Configurar o PDF com formato e orientação
-    const pdf = new jsPDF({
-      orientation: orientation,
-      unit: 'mm',
-      format: [paperConfig.width, paperConfig.height]
-    });
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      estimateSizes({ layout: previewLayout, thumbnails: previewData, format: pdfOptions.format, quality: estimateQuality })
+        .then(bytes => !cancelled && setTileBytes(bytes))
+        .catch(() => !cancelled && setTileBytes(null));
+    }, PREVIEW_DEBOUNCE_MS);
 
-    const pageWidth = pdf.internal.pageSize.getWidth();
-    const pageHeight = pdf.internal.pageSize.getHeight();
-    const margin = 5; // Margem mínima para impressão
-    const maxWidth = pageWidth - 2 * margin;
-    const maxHeight = pageHeight - 2 * margin;
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [previewLayout, previewData, pdfOptions.format, estimateQuality, estimateSizes]);
 
-    // Informações do grid
-    const totalCols = gridConfig.horizontal;
-    const totalRows = gridConfig.vertical;
+  const sizeEstimate = useMemo(
+    () => (tileBytes ? estimatePdfSize(tileBytes, pdfOptions.coverPage, skippedTiles) : null),
+    [tileBytes, pdfOptions.coverPage, skippedTiles]
+  );
 
-    for (let i = 0; i < previewData.length; i++) {
-      if (i > 0) {
-        pdf.addPage();
-      }
+  // Exportação independente da pré-visualização: fatia de novo na resolução de impressão
+  const exportName = useCallback((layout: PosterLayout) => {
+    const orientationLabel = orientationSetting === 'auto'
+      ? `auto-${layout.orientation}`
+      : layout.orientation;
+    return `poster-${layout.columns}x${layout.rows}-${paper.id}-${orientationLabel}`;
+  }, [paper, orientationSetting]);
 
-      // Calcular posição no grid (qual linha e coluna)
-      const col = i % totalCols;
-      const row = Math.floor(i / totalCols);
-      
-      // Calcular posição e tamanho da imagem para ocupar o máximo da página
-      const imgData = previewData[i];
-      const aspectRatio = imageData!.width / gridConfig.horizontal / (imageData!.height / gridConfig.vertical);
-      
-      let imgWidth, imgHeight;
-      
-      // Maximizar o uso da página
-      if (aspectRatio > maxWidth / maxHeight) {
-        imgWidth = maxWidth;
-        imgHeight = maxWidth / aspectRatio;
-      } else {
-        imgHeight = maxHeight;
-        imgWidth = maxHeight * aspectRatio;
-      }
+  const generatePDF = useCallback(async () => {
+    if (!sliceJob) return;
+
+    const taskOptions = startTask('pdf');
+
+    try {
+      const pdf = await renderWorker.buildPdf(
+        { ...sliceJob, options: pdfOptions, calibration, skipped: [...skippedTiles] },
+        taskOptions
+      );
+
+      downloadBlob(pdf, `${exportName(sliceJob.layout)}.pdf`);
+      toast.success("PDF gerado e baixado!");
+    } catch (error) {
+      if (!isAbortError(error)) toast.error("Não foi possível gerar o PDF.", errorDetail(error));
+    } finally {
+      finishTask(taskOptions);
+    }
+  }, [sliceJob, pdfOptions, calibration, skippedTiles, exportName, renderWorker, startTask, finishTask]);
 
-      // Centralizar a imagem na página
-      const x = (pageWidth - imgWidth) / 2;
-      const y = (pageHeight - imgHeight) / 2;
+  // Uma imagem por página para gráficas que não trabalham com PDF, com o layout.json da grade
+  const generateZip = useCallback(async () => {
+    if (!sliceJob) return;
 
-      // Adicionar imagem ocupando o máximo da página
-      pdf.addImage(imgData, 'PNG', x, y, imgWidth, imgHeight);
+    const taskOptions = startTask('zip');
 
-      // Adicionar informações discretas no canto
-      pdf.setFontSize(8);
-      pdf.setTextColor(120);
-      pdf.text(`${i + 1}/${previewData.length}`, pageWidth - 15, 10);
-      pdf.text(`${col + 1},${row + 1}`, pageWidth - 15, 18);
+    try {
+      const zip = await renderWorker.buildZip(
+        { ...sliceJob, format: zipFormat, quality: pdfOptions.jpegQuality, paper, skipped: [...skippedTiles] },
+        taskOptions
+      );
+
+      downloadBlob(zip, `${exportName(sliceJob.layout)}.zip`);
+      toast.success("Páginas exportadas em ZIP!");
+    } catch (error) {
+      if (!isAbortError(error)) toast.error("Não foi possível gerar o ZIP.", errorDetail(error));
+    } finally {
+      finishTask(taskOptions);
     }
+  }, [sliceJob, zipFormat, pdfOptions.jpegQuality, paper, skippedTiles, exportName, renderWorker, startTask, finishTask]);
 
-    const filename = `poster-${gridConfig.horizontal}x${gridConfig.vertical}-${paperFormat}-${orientation}.pdf`;
-    pdf.save(filename);
-    toast.success("PDF gerado e baixado!");
-  }, [previewData, gridConfig, imageData, paperFormat, orientation]);
+  // Mesmo pôster, sem fatiar: uma página do tamanho final para plotter
+  const plotter = useMemo(
+    () => (layout ? plotterSheet(layout.posterWidth, layout.posterHeight, rollWidth) : null),
+    [layout, rollWidth]
+  );
+  const plotterReady = !!plotter && sheetFitsRoll(plotter, rollWidth) && sheetFitsPdf(plotter);
+  const plotterOutputDpi = useMemo(
+    () => (layout && plotter ? plotterDpi(plotterLayout(layout, plotter)) : null),
+    [layout, plotter]
+  );
+
+  const generatePlotterPdf = useCallback(async () => {
+    if (!sliceJob || !plotter) return;
+
+    const taskOptions = startTask('plotter');
+    const { posterWidth, posterHeight } = sliceJob.layout;
+
+    try {
+      const pdf = await renderWorker.buildPdf(
+        {
+          ...sliceJob,
+          layout: plotterLayout(sliceJob.layout, plotter),
+          options: pdfOptions,
+          calibration: IDENTITY_CALIBRATION,
+          singleSheet: true,
+          skipped: []
+        },
+        taskOptions
+      );
+
+      downloadBlob(pdf, `poster-${Math.round(posterWidth / 10)}x${Math.round(posterHeight / 10)}cm-plotter.pdf`);
+      toast.success("PDF para plotter gerado e baixado!");
+    } catch (error) {
+      if (!isAbortError(error)) toast.error("Não foi possível gerar o PDF para plotter.", errorDetail(error));
+    } finally {
+      finishTask(taskOptions);
+    }
+  }, [sliceJob, plotter, pdfOptions, renderWorker, startTask, finishTask]);
 
   const dragHandlers = {
     onDragOver: (e: React.DragEvent) => {
@@ -202,7 +613,7 @@ export const PosterCreator = () => {
   };
 
   const gridStyle = {
-    gridTemplateColumns: `repeat(${gridConfig.horizontal}, 1fr)`
+    gridTemplateColumns: `repeat(${previewLayout?.columns ?? layoutGrid.horizontal}, 1fr)`
   };
 
   return (
@@ -253,16 +664,50 @@ export const PosterCreator = () => {
                 className="hidden"
               />
 
-              {imageData && (
+              {imageData && imageSize && source && (
                 <div className="space-y-2">
-                  <img
-                    src={imageData.url}
-                    alt="Preview"
-                    className="w-full h-48 object-contain rounded-lg border"
+                  <CropEditor
+                    imageUrl={imageData.url}
+                    naturalWidth={imageData.width}
+                    naturalHeight={imageData.height}
+                    transform={transform}
+                    crop={crop}
+                    aspect={cropAspect}
+                    onChange={setCrop}
                   />
+                  <div className="flex items-center gap-1">
+                    <Button variant="outline" size="icon" className="h-8 w-8" title="Girar para a esquerda"
+                      onClick={() => changeTransform(prev => rotateTransform(prev, -90))}>
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="icon" className="h-8 w-8" title="Girar para a direita"
+                      onClick={() => changeTransform(prev => rotateTransform(prev, 90))}>
+                      <RotateCw className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="icon" className="h-8 w-8" title="Espelhar horizontalmente"
+                      onClick={() => changeTransform(prev => flipTransform(prev, 'horizontal'))}>
+                      <FlipHorizontal className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="icon" className="h-8 w-8" title="Espelhar verticalmente"
+                      onClick={() => changeTransform(prev => flipTransform(prev, 'vertical'))}>
+                      <FlipVertical className="h-4 w-4" />
+                    </Button>
+                  </div>
                   <p className="text-sm text-muted-foreground">
-                    {imageData.width} × {imageData.height} pixels
+                    {imageSize.width} × {imageSize.height} pixels
+                    {!isFullCrop(source, imageSize.width, imageSize.height) && (
+                      <> • recorte de {Math.round(source.width)} × {Math.round(source.height)}</>
+                    )}
                   </p>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="cropLocked">Travar proporção da grade</Label>
+                    <Switch
+                      id="cropLocked"
+                      checked={cropLocked}
+                      disabled={sizeMode !== 'pages' || isRoll}
+                      onCheckedChange={setCropLocked}
+                    />
+                  </div>
                 </div>
               )}
             </CardContent>
@@ -278,35 +723,233 @@ export const PosterCreator = () => {
             </CardHeader>
             <CardContent className="space-y-6">
               <div className="space-y-4">
+                <Tabs value={sizeMode} onValueChange={(value) => setSizeMode(value as SizeMode)}>
+                  <TabsList className="grid w-full grid-cols-2">
+                    <TabsTrigger value="pages">Por páginas</TabsTrigger>
+                    <TabsTrigger value="size">Tamanho final</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+
+                {source && !isRoll && (
+                  <AutoLayoutDialog
+                    imageWidth={source.width}
+                    imageHeight={source.height}
+                    paper={paper}
+                    margins={printerProfile.margins}
+                    overlap={gridConfig.overlap}
+                    initialSize={posterSize}
+                    initialDpi={dpiThresholds.warning}
+                    onApply={applySuggestion}
+                  />
+                )}
+
+                {sizeMode === 'pages' ? (
+                  <>
+                    <div>
+                      <Label htmlFor="horizontal">{isRoll ? 'Número de Faixas' : 'Páginas Horizontais'}</Label>
+                      <Input
+                        id="horizontal"
+                        type="number"
+                        min="1"
+                        max="10"
+                        value={gridConfig.horizontal}
+                        onChange={(e) => setGridConfig(prev => ({
+                          ...prev,
+                          horizontal: parseInt(e.target.value) || 1
+                        }))}
+                      />
+                    </div>
+
+                    {!isRoll && (
+                      <div>
+                        <Label htmlFor="vertical">Páginas Verticais</Label>
+                        <Input
+                          id="vertical"
+                          type="number"
+                          min="1"
+                          max="10"
+                          value={gridConfig.vertical}
+                          onChange={(e) => setGridConfig(prev => ({
+                            ...prev,
+                            vertical: parseInt(e.target.value) || 1
+                          }))}
+                        />
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  <div className="space-y-3">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <Label htmlFor="posterDimension">Dimensão</Label>
+                        <Select
+                          value={posterSize.dimension}
+                          onValueChange={(value: PosterSize['dimension']) => setPosterSize(prev => ({ ...prev, dimension: value }))}
+                        >
+                          <SelectTrigger id="posterDimension">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="width">Largura</SelectItem>
+                            <SelectItem value="height">Altura</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      <div>
+                        <Label htmlFor="posterUnit">Unidade</Label>
+                        <Select
+                          value={posterSize.unit}
+                          onValueChange={(value: SizeUnit) => setPosterSize(prev => ({ ...prev, unit: value }))}
+                        >
+                          <SelectTrigger id="posterUnit">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="cm">Centímetros</SelectItem>
+                            <SelectItem value="in">Polegadas</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="posterValue">
+                        {posterSize.dimension === 'width' ? 'Largura' : 'Altura'} do Pôster ({posterSize.unit})
+                      </Label>
+                      <Input
+                        id="posterValue"
+                        type="number"
+                        min="1"
+                        step="0.1"
+                        value={posterSize.value}
+                        onChange={(e) => setPosterSize(prev => ({
+                          ...prev,
+                          value: parseFloat(e.target.value) || 0
+                        }))}
+                      />
+                    </div>
+
+                    {targetSize ? (
+                      <p className="text-xs text-muted-foreground">
+                        Pôster de {(targetSize.width / 10).toFixed(1)} × {(targetSize.height / 10).toFixed(1)} cm
+                        em {layoutGrid.horizontal} × {layoutGrid.vertical} páginas
+                      </p>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        Carregue uma imagem para calcular a grade
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 <div>
-                  <Label htmlFor="horizontal">Páginas Horizontais</Label>
+                  <Label htmlFor="overlap">Sobreposição para Colagem (mm)</Label>
                   <Input
-                    id="horizontal"
+                    id="overlap"
                     type="number"
-                    min="1"
-                    max="10"
-                    value={gridConfig.horizontal}
+                    min="0"
+                    max="30"
+                    value={gridConfig.overlap}
                     onChange={(e) => setGridConfig(prev => ({
                       ...prev,
-                      horizontal: parseInt(e.target.value) || 1
+                      overlap: Math.max(0, parseFloat(e.target.value) || 0)
                     }))}
                   />
                 </div>
-                
-                <div>
-                  <Label htmlFor="vertical">Páginas Verticais</Label>
-                  <Input
-                    id="vertical"
-                    type="number"
-                    min="1"
-                    max="10"
-                    value={gridConfig.vertical}
-                    onChange={(e) => setGridConfig(prev => ({
-                      ...prev,
-                      vertical: parseInt(e.target.value) || 1
-                    }))}
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="shadeOverlap">Sombrear área de colagem no PDF</Label>
+                  <Switch
+                    id="shadeOverlap"
+                    checked={pdfOptions.shadeOverlap}
+                    disabled={!gridConfig.overlap}
+                    onCheckedChange={(checked) => setPdfOptions(prev => ({ ...prev, shadeOverlap: checked }))}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="assemblyMarks">Marcas de corte e montagem</Label>
+                  <Switch
+                    id="assemblyMarks"
+                    checked={pdfOptions.assemblyMarks}
+                    onCheckedChange={(checked) => setPdfOptions(prev => ({ ...prev, assemblyMarks: checked }))}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="coverPage">Página com mapa de montagem</Label>
+                  <Switch
+                    id="coverPage"
+                    checked={pdfOptions.coverPage}
+                    onCheckedChange={(checked) => setPdfOptions(prev => ({ ...prev, coverPage: checked }))}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="skipBlank">Pular páginas em branco</Label>
+                  <Switch
+                    id="skipBlank"
+                    checked={skipBlank}
+                    onCheckedChange={setSkipBlank}
                   />
                 </div>
+
+                {skipBlank && (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label>Tolerância (tinta na página)</Label>
+                      <span className="text-sm text-muted-foreground">
+                        até {(blankTolerance * 100).toFixed(1)}%
+                      </span>
+                    </div>
+                    <Slider
+                      min={0}
+                      max={MAX_BLANK_TOLERANCE}
+                      step={0.001}
+                      value={[blankTolerance]}
+                      onValueChange={([value]) => setBlankTolerance(value)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Páginas quase sem imagem saem do PDF e do ZIP, mas mantêm o número no mapa de montagem.
+                    </p>
+                  </div>
+                )}
+
+                <div>
+                  <Label htmlFor="tileFormat">Compressão das imagens</Label>
+                  <Select
+                    value={pdfOptions.format}
+                    onValueChange={(value: TileFormat) => setPdfOptions(prev => ({ ...prev, format: value }))}
+                  >
+                    <SelectTrigger id="tileFormat">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Automática (por página)</SelectItem>
+                      <SelectItem value="png">PNG (sem perdas)</SelectItem>
+                      <SelectItem value="jpeg">JPEG</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {(pdfOptions.format !== 'png' || zipFormat !== 'png') && (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label>Qualidade (JPEG/WebP)</Label>
+                      <span className="text-sm text-muted-foreground">
+                        {Math.round(pdfOptions.jpegQuality * 100)}%
+                      </span>
+                    </div>
+                    <Slider
+                      min={0.5}
+                      max={1}
+                      step={0.05}
+                      value={[pdfOptions.jpegQuality]}
+                      onValueChange={([value]) => setPdfOptions(prev => ({ ...prev, jpegQuality: value }))}
+                    />
+                  </div>
+                )}
               </div>
 
               {/* Configurações de Impressão */}
@@ -319,23 +962,34 @@ export const PosterCreator = () => {
                 <div className="grid grid-cols-2 gap-3">
                   <div>
                     <Label htmlFor="paperFormat">Formato do Papel</Label>
-                    <Select value={paperFormat} onValueChange={(value: PaperFormat) => setPaperFormat(value)}>
+                    <Select value={paper.id} onValueChange={(value: PaperFormat) => setPaperFormat(value)}>
                       <SelectTrigger>
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        {Object.entries(PAPER_FORMATS).map(([key, format]) => (
-                          <SelectItem key={key} value={key}>
-                            {format.name}
-                          </SelectItem>
+                        {paperGroups.map(([group, formats]) => (
+                          <SelectGroup key={group}>
+                            <SelectLabel>{PAPER_GROUPS[group]}</SelectLabel>
+                            {formats.map((format) => (
+                              <SelectItem key={format.id} value={format.id}>
+                                {format.name}
+                              </SelectItem>
+                            ))}
+                          </SelectGroup>
                         ))}
                       </SelectContent>
                     </Select>
+                    <CustomPaperDialog
+                      papers={customPapers}
+                      onAdd={addPaper}
+                      onRemove={handleRemovePaper}
+                      onSelect={setPaperFormat}
+                    />
                   </div>
                   
                   <div>
                     <Label htmlFor="orientation">Orientação</Label>
-                    <Select value={orientation} onValueChange={(value: Orientation) => setOrientation(value)}>
+                    <Select value={orientationSetting} onValueChange={(value: OrientationSetting) => setOrientationSetting(value)}>
                       <SelectTrigger>
                         <SelectValue />
                       </SelectTrigger>
@@ -352,10 +1006,84 @@ export const PosterCreator = () => {
                             Paisagem
                           </div>
                         </SelectItem>
+                        <SelectItem value="auto">
+                          <div className="flex items-center gap-2">
+                            <Wand2 className="h-3 w-3" />
+                            Automática
+                          </div>
+                        </SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
                 </div>
+
+                {isRoll && (
+                  <div className="space-y-2">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <Label htmlFor="rollPaperWidth">Largura do rolo (mm)</Label>
+                        <Input
+                          id="rollPaperWidth"
+                          type="number"
+                          min="100"
+                          value={rollPaper.width}
+                          onChange={(e) => setRollPaper(prev => ({
+                            ...prev,
+                            width: Math.max(0, parseFloat(e.target.value) || 0)
+                          }))}
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="rollMaxLength">Faixa máxima (mm)</Label>
+                        <Input
+                          id="rollMaxLength"
+                          type="number"
+                          min="100"
+                          value={rollPaper.maxLength}
+                          onChange={(e) => setRollPaper(prev => ({
+                            ...prev,
+                            maxLength: Math.max(0, parseFloat(e.target.value) || 0)
+                          }))}
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {rollPlan?.direction === 'horizontal' ? 'Faixas horizontais' : 'Faixas verticais'}
+                      {' '}(Retrato = verticais, Paisagem = horizontais). Faixas mais longas que o máximo
+                      são divididas em partes iguais.
+                    </p>
+                  </div>
+                )}
+
+                <div>
+                  <Label htmlFor="printerProfile">Impressora</Label>
+                  <Select value={printerProfile.id} onValueChange={setPrinterProfileId}>
+                    <SelectTrigger id="printerProfile">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[...PRINTER_PROFILES, ...customProfiles].map((profile) => (
+                        <SelectItem key={profile.id} value={profile.id}>
+                          {profile.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex items-center gap-4">
+                    <PrinterProfileDialog
+                      profiles={customProfiles}
+                      onAdd={addProfile}
+                      onRemove={handleRemoveProfile}
+                      onSelect={setPrinterProfileId}
+                    />
+                    <CalibrationDialog
+                      page={pageSetup}
+                      printerName={printerProfile.name}
+                      calibration={calibration}
+                      onChange={(value) => setCalibration(printerProfile.id, value)}
+                    />
+                  </div>
+                </div>
               </div>
 
               <div className="p-4 bg-accent rounded-lg">
@@ -364,35 +1092,216 @@ export const PosterCreator = () => {
                   <span className="font-medium">Total de Páginas</span>
                 </div>
                 <p className="text-2xl font-bold text-primary">
-                  {gridConfig.horizontal * gridConfig.vertical}
+                  {layoutGrid.horizontal * layoutGrid.vertical}
                 </p>
+                {skippedTiles.size > 0 && !previewStale && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {skippedTiles.size} em branco, fora da impressão
+                  </p>
+                )}
                 <p className="text-xs text-muted-foreground mt-1">
-                  {PAPER_FORMATS[paperFormat].name} • {orientation === 'portrait' ? 'Retrato' : 'Paisagem'}
+                  {paper.name} • {rollPlan
+                    ? (rollPlan.direction === 'vertical' ? 'Faixas verticais' : 'Faixas horizontais')
+                    : orientationName(orientation, orientationSetting === 'auto')} • {printerProfile.name}
                 </p>
                 <p className="text-xs text-success mt-1 font-medium">
-                  Imagem maximizada em cada página
+                  {targetSize ? 'Impressão em escala real (1:1)' : 'Imagem maximizada em cada página'}
                 </p>
+                {dpi !== null && (
+                  <div className="flex items-center justify-between mt-1">
+                    <p className="text-xs text-muted-foreground">
+                      Resolução efetiva:{' '}
+                      <span
+                        className={
+                          resolution === 'critical'
+                            ? 'font-medium text-destructive'
+                            : resolution === 'warning'
+                              ? 'font-medium text-warning'
+                              : 'font-medium text-success'
+                        }
+                      >
+                        {Math.round(dpi)} DPI
+                      </span>
+                    </p>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <Button variant="ghost" size="sm" className="h-auto px-1 text-xs">
+                          Limites
+                        </Button>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-64 space-y-3">
+                        <div>
+                          <Label htmlFor="dpiWarning">Alertar abaixo de (DPI)</Label>
+                          <Input
+                            id="dpiWarning"
+                            type="number"
+                            min="1"
+                            value={dpiThresholds.warning}
+                            onChange={(e) => setDpiThresholds(prev => ({
+                              ...prev,
+                              warning: parseInt(e.target.value) || DEFAULT_DPI_THRESHOLDS.warning
+                            }))}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="dpiCritical">Crítico abaixo de (DPI)</Label>
+                          <Input
+                            id="dpiCritical"
+                            type="number"
+                            min="1"
+                            value={dpiThresholds.critical}
+                            onChange={(e) => setDpiThresholds(prev => ({
+                              ...prev,
+                              critical: parseInt(e.target.value) || DEFAULT_DPI_THRESHOLDS.critical
+                            }))}
+                          />
+                        </div>
+                      </PopoverContent>
+                    </Popover>
+                  </div>
+                )}
               </div>
 
+              {dpiSuggestions.length > 0 && (
+                <Alert variant={resolution === 'critical' ? 'destructive' : 'default'}>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>
+                    {resolution === 'critical' ? 'Resolução muito baixa' : 'Resolução baixa'}
+                  </AlertTitle>
+                  <AlertDescription className="space-y-1 text-xs">
+                    <p>A imagem pode ficar pixelada nesse tamanho.</p>
+                    {dpiSuggestions.map((suggestion) => (
+                      <p key={suggestion.dpi}>
+                        Para {suggestion.dpi} DPI: até {suggestion.grid.horizontal} × {suggestion.grid.vertical} páginas
+                        (pôster de até {suggestion.width.toFixed(1)} × {suggestion.height.toFixed(1)} cm).
+                      </p>
+                    ))}
+                  </AlertDescription>
+                </Alert>
+              )}
+
               <div className="space-y-2">
+                {task && (
+                  <TaskProgress
+                    label={TASK_LABELS[task.kind]}
+                    detail={`${STAGE_LABELS[task.stage]}: página ${task.done} de ${task.total}`}
+                    progress={taskProgress(task)}
+                    startedAt={task.startedAt}
+                    onCancel={cancelTask}
+                  />
+                )}
+
                 <Button
                   onClick={generatePreview}
-                  disabled={!imageData}
+                  disabled={!imageData || !!task}
                   className="w-full"
                   variant="outline"
                 >
                   <Eye className="h-4 w-4 mr-2" />
-                  Gerar Pré-visualização
+                  Atualizar Pré-visualização
                 </Button>
                 
                 <Button
                   onClick={generatePDF}
-                  disabled={!previewData.length}
+                  disabled={!imageData || !!task || waitingForPreview}
                   className="w-full"
+                  variant={previewStale ? 'secondary' : 'default'}
                 >
                   <Download className="h-4 w-4 mr-2" />
-                  Baixar PDF
+                  {previewStale ? 'Baixar PDF (pré-visualização desatualizada)' : 'Baixar PDF'}
                 </Button>
+                {sizeEstimate !== null && (
+                  <p className="text-xs text-muted-foreground text-center">
+                    Tamanho estimado do PDF: ~{formatFileSize(sizeEstimate)}
+                  </p>
+                )}
+                <div className="flex gap-2">
+                  <Select value={zipFormat} onValueChange={(value: TileImageFormat) => setZipFormat(value)}>
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="png">PNG</SelectItem>
+                      <SelectItem value="jpeg">JPEG</SelectItem>
+                      <SelectItem value="webp">WebP</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    onClick={generateZip}
+                    disabled={!imageData || !!task || waitingForPreview}
+                    className="flex-1"
+                    variant="outline"
+                  >
+                    <FileArchive className="h-4 w-4 mr-2" />
+                    Baixar páginas (ZIP)
+                  </Button>
+                </div>
+
+                {previewStale && previewData.length > 0 && (
+                  <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    <AlertTriangle className="h-3 w-3" />
+                    {waitingForPreview
+                      ? 'Com páginas em branco puladas, a exportação espera a pré-visualização atualizar.'
+                      : 'A pré-visualização está sendo atualizada com a configuração atual.'}
+                  </p>
+                )}
+
+                <div className="space-y-2 border-t pt-4">
+                  <Label htmlFor="rollWidth">Plotter (folha única)</Label>
+                  <div className="flex gap-2">
+                    <Select
+                      value={rollWidth === null ? 'exact' : String(rollWidth)}
+                      onValueChange={(value) => setRollWidth(value === 'exact' ? null : Number(value))}
+                    >
+                      <SelectTrigger id="rollWidth" className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="exact">Tamanho exato</SelectItem>
+                        {ROLL_WIDTHS.map((width) => (
+                          <SelectItem key={width} value={String(width)}>
+                            Rolo {width} mm ({Math.round(width / 25.4)}")
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      onClick={generatePlotterPdf}
+                      disabled={!imageData || !!task || !plotterReady}
+                      className="flex-1"
+                      variant="outline"
+                    >
+                      <Printer className="h-4 w-4 mr-2" />
+                      PDF para plotter
+                    </Button>
+                  </div>
+                  {plotter && (
+                    <p className="text-xs text-muted-foreground">
+                      Folha de {(plotter.pageWidth / 10).toFixed(1)} × {(plotter.pageHeight / 10).toFixed(1)} cm,
+                      na mesma escala do pôster em páginas
+                      {plotterOutputDpi !== null && ` • ${Math.round(plotterOutputDpi)} DPI`}
+                    </p>
+                  )}
+                  {plotterOutputDpi !== null && dpi !== null && Math.round(plotterOutputDpi) < Math.round(dpi) && (
+                    <p className="text-xs text-warning flex items-center gap-1">
+                      <AlertTriangle className="h-3 w-3" />
+                      Em folha única a imagem é reduzida de {Math.round(dpi)} para {Math.round(plotterOutputDpi)} DPI
+                      (limite de tamanho do canvas do navegador). O PDF em páginas mantém a resolução.
+                    </p>
+                  )}
+                  {plotter && !sheetFitsRoll(plotter, rollWidth) && (
+                    <p className="text-xs text-destructive flex items-center gap-1">
+                      <AlertTriangle className="h-3 w-3" />
+                      O pôster é mais largo que o rolo. Reduza o tamanho ou gire a imagem.
+                    </p>
+                  )}
+                  {plotter && !sheetFitsPdf(plotter) && (
+                    <p className="text-xs text-destructive flex items-center gap-1">
+                      <AlertTriangle className="h-3 w-3" />
+                      A folha passa de {(MAX_PDF_SIDE / 1000).toFixed(2)} m, o maior tamanho de página do PDF.
+                    </p>
+                  )}
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -406,16 +1315,16 @@ export const PosterCreator = () => {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              {previewData.length > 0 ? (
-                <div className="space-y-4">
+              {previewData.length > 0 && previewLayout ? (
+                <div className={`space-y-4 transition-opacity ${previewStale ? 'opacity-50' : ''}`}>
                   <div className="grid gap-2" style={gridStyle}>
                     {previewData.map((piece, index) => {
-                      // Calcular proporção da página baseada no formato e orientação
-                      const paperConfig = PAPER_FORMATS[paperFormat];
-                      const pageWidth = orientation === 'portrait' ? paperConfig.width : paperConfig.height;
-                      const pageHeight = orientation === 'portrait' ? paperConfig.height : paperConfig.width;
+                      // Posicionar o pedaço na página exatamente como ficará no PDF
+                      const { pageWidth, pageHeight } = previewLayout;
                       const pageAspectRatio = pageWidth / pageHeight;
-                      
+                      const tile = previewLayout.tiles[index];
+                      const blank = skippedTiles.has(index);
+
                       return (
                         <div
                           key={index}
@@ -423,22 +1332,39 @@ export const PosterCreator = () => {
                           style={{ aspectRatio: pageAspectRatio }}
                           onClick={() => setSelectedPreview(index)}
                         >
-                          {/* Simular papel */}
-                          <div className="absolute inset-1 bg-white border border-gray-200 rounded flex items-center justify-center">
-                            <img
-                              src={piece}
-                              alt={`Página ${index + 1}`}
-                              className="max-w-full max-h-full object-contain"
-                            />
+                          {/* Simular papel; páginas puladas aparecem apagadas */}
+                          <div className={`absolute inset-0 bg-white ${blank ? 'opacity-40 grayscale' : ''}`}>
+                            {piece && (
+                              <img
+                                src={piece}
+                                alt={`Página ${index + 1}`}
+                                className="absolute"
+                                style={{
+                                  left: `${tile.x / pageWidth * 100}%`,
+                                  top: `${tile.y / pageHeight * 100}%`,
+                                  width: `${tile.width / pageWidth * 100}%`,
+                                  height: `${tile.height / pageHeight * 100}%`
+                                }}
+                              />
+                            )}
                           </div>
+
+                          {blank && (
+                            <div className="absolute inset-0 flex items-center justify-center bg-muted/60">
+                              <span className="text-xs font-medium text-muted-foreground">Em branco</span>
+                            </div>
+                          )}
                           
                           {/* Overlay com informações */}
                           <div className="absolute inset-0 bg-black/50 flex flex-col items-center justify-center opacity-0 hover:opacity-100 transition-opacity">
                             <span className="text-white text-xs font-medium mb-1">
-                              Página {index + 1}
+                              Página {index + 1} • {tileCoordinate(tile.col, tile.row)}
                             </span>
+                            {blank && (
+                              <span className="text-white text-xs">Não será impressa</span>
+                            )}
                             <span className="text-white text-xs">
-                              {PAPER_FORMATS[paperFormat].name} - {orientation === 'portrait' ? 'Retrato' : 'Paisagem'}
+                              {paper.name} - {orientationName(previewLayout.orientation, orientationSetting === 'auto')}
                             </span>
                           </div>
                         </div>
@@ -446,9 +1372,11 @@ export const PosterCreator = () => {
                     })}
                   </div>
                   
-                  {selectedPreview !== null && (
+                  {selectedPreview !== null && previewData[selectedPreview] && (
                     <div className="space-y-2">
-                      <Label>Página {selectedPreview + 1} - Ampliada</Label>
+                      <Label>
+                        Página {selectedPreview + 1} ({tileCoordinate(previewLayout.tiles[selectedPreview].col, previewLayout.tiles[selectedPreview].row)}) - Ampliada
+                      </Label>
                       <img
                         src={previewData[selectedPreview]}
                         alt={`Página ${selectedPreview + 1} ampliada`}
@@ -466,9 +1394,6 @@ export const PosterCreator = () => {
             </CardContent>
           </Card>
         </div>
-
-          {/* Hidden Canvas */}
-          <canvas ref={canvasRef} className="hidden" />
         </div>
       </main>
       
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import type { Edges } from "@/lib/layout";
+import type { PrinterProfile } from "@/lib/printers";
+
+const EDGE_LABELS: Record<keyof Edges, string> = {
+  top: 'Superior',
+  right: 'Direita',
+  bottom: 'Inferior',
+  left: 'Esquerda'
+};
+
+const MAX_MARGIN = 50; // mm
+
+interface PrinterProfileDialogProps {
+  profiles: PrinterProfile[];
+  onAdd: (name: string, margins: Edges) => PrinterProfile;
+  onRemove: (id: string) => void;
+  onSelect: (id: string) => void;
+}
+
+export const PrinterProfileDialog = ({ profiles, onAdd, onRemove, onSelect }: PrinterProfileDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [margins, setMargins] = useState<Record<keyof Edges, string>>({
+    top: '5',
+    right: '5',
+    bottom: '5',
+    left: '5'
+  });
+
+  const handleAdd = () => {
+    const parsed: Edges = {
+      top: parseFloat(margins.top),
+      right: parseFloat(margins.right),
+      bottom: parseFloat(margins.bottom),
+      left: parseFloat(margins.left)
+    };
+
+    if (Object.values(parsed).some((value) => !(value >= 0) || value > MAX_MARGIN)) {
+      toast.error(`As margens devem estar entre 0 e ${MAX_MARGIN} mm.`);
+      return;
+    }
+    if (!name.trim()) {
+      toast.error("Dê um nome para a impressora.");
+      return;
+    }
+
+    const profile = onAdd(name.trim(), parsed);
+    onSelect(profile.id);
+    setName('');
+    setOpen(false);
+    toast.success(`Impressora "${profile.name}" adicionada!`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-auto px-0 text-xs">
+          <Plus className="h-3 w-3 mr-1" />
+          Nova impressora
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Perfis de impressora</DialogTitle>
+          <DialogDescription>
+            Informe a área que a impressora não consegue imprimir em cada borda, com o papel em retrato.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="printerName">Nome</Label>
+            <Input
+              id="printerName"
+              placeholder="Ex.: Impressora do escritório"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {(Object.keys(EDGE_LABELS) as Array<keyof Edges>).map((edge) => (
+              <div key={edge}>
+                <Label htmlFor={`printerMargin-${edge}`}>{EDGE_LABELS[edge]} (mm)</Label>
+                <Input
+                  id={`printerMargin-${edge}`}
+                  type="number"
+                  min="0"
+                  max={MAX_MARGIN}
+                  step="0.1"
+                  value={margins[edge]}
+                  onChange={(e) => setMargins(prev => ({ ...prev, [edge]: e.target.value }))}
+                />
+              </div>
+            ))}
+          </div>
+
+          {profiles.length > 0 && (
+            <div className="space-y-2">
+              <Label>Salvas</Label>
+              <ul className="space-y-1">
+                {profiles.map((profile) => (
+                  <li key={profile.id} className="flex items-center justify-between text-sm">
+                    <span>
+                      {profile.name}
+                      <span className="text-muted-foreground ml-2">
+                        {profile.margins.top} / {profile.margins.right} / {profile.margins.bottom} / {profile.margins.left} mm
+                      </span>
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => onRemove(profile.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleAdd}>
+            <Plus className="h-4 w-4 mr-2" />
+            Adicionar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
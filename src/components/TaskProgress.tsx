@@ -0,0 +1,43 @@
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+
+interface TaskProgressProps {
+  label: string;
+  /** Etapa atual, ex.: "Fatiando: página 3 de 12" */
+  detail: string;
+  /** Andamento total do trabalho, de 0 a 1 */
+  progress: number;
+  /** Momento em que o trabalho começou (ms, performance.now) */
+  startedAt: number;
+  onCancel: () => void;
+}
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds} s`;
+  return `${Math.floor(seconds / 60)} min ${seconds % 60} s`;
+};
+
+export const TaskProgress = ({ label, detail, progress, startedAt, onCancel }: TaskProgressProps) => {
+  // Estimativa linear a partir do ritmo até aqui
+  const elapsed = performance.now() - startedAt;
+  const remaining = progress > 0 && progress < 1 ? (elapsed / progress) * (1 - progress) : null;
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span className="font-medium">{label}</span>
+        <Button variant="ghost" size="sm" className="h-7 px-2" onClick={onCancel}>
+          <X className="h-4 w-4 mr-1" />
+          Cancelar
+        </Button>
+      </div>
+      <Progress value={progress * 100} className="h-2" />
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{detail}</span>
+        {remaining !== null && <span>~{formatRemaining(remaining)} restantes</span>}
+      </div>
+    </div>
+  );
+};
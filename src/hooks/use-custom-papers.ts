@@ -0,0 +1,42 @@
+import * as React from "react"
+
+import type { PaperSize } from "@/lib/paper"
+
+const STORAGE_KEY = "poster-creator:custom-papers"
+
+function loadCustomPapers(): PaperSize[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]")
+    return Array.isArray(stored)
+      ? stored.filter((paper) => paper?.id && paper.width > 0 && paper.height > 0)
+      : []
+  } catch {
+    return []
+  }
+}
+
+export function useCustomPapers() {
+  const [papers, setPapers] = React.useState<PaperSize[]>(loadCustomPapers)
+
+  React.useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(papers))
+  }, [papers])
+
+  const addPaper = React.useCallback((name: string, width: number, height: number) => {
+    const paper: PaperSize = {
+      id: `custom-${Date.now().toString(36)}`,
+      name,
+      width,
+      height,
+      group: "custom",
+    }
+    setPapers((prev) => [...prev, paper])
+    return paper
+  }, [])
+
+  const removePaper = React.useCallback((id: string) => {
+    setPapers((prev) => prev.filter((paper) => paper.id !== id))
+  }, [])
+
+  return { papers, addPaper, removePaper }
+}
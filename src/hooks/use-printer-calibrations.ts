@@ -0,0 +1,38 @@
+import * as React from "react"
+
+import type { PrinterCalibration } from "@/lib/calibration"
+
+const STORAGE_KEY = "poster-creator:printer-calibrations"
+
+function loadCalibrations(): Record<string, PrinterCalibration> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}")
+    return stored && typeof stored === "object" && !Array.isArray(stored) ? stored : {}
+  } catch {
+    return {}
+  }
+}
+
+// Calibração de escala salva por perfil de impressora
+export function usePrinterCalibrations() {
+  const [calibrations, setCalibrations] =
+    React.useState<Record<string, PrinterCalibration>>(loadCalibrations)
+
+  React.useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(calibrations))
+  }, [calibrations])
+
+  const setCalibration = React.useCallback((profileId: string, calibration: PrinterCalibration | null) => {
+    setCalibrations((prev) => {
+      const next = { ...prev }
+      if (calibration) {
+        next[profileId] = calibration
+      } else {
+        delete next[profileId]
+      }
+      return next
+    })
+  }, [])
+
+  return { calibrations, setCalibration }
+}
@@ -0,0 +1,42 @@
+import * as React from "react"
+
+import type { Edges } from "@/lib/layout"
+import type { PrinterProfile } from "@/lib/printers"
+
+const STORAGE_KEY = "poster-creator:printer-profiles"
+
+function loadPrinterProfiles(): PrinterProfile[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]")
+    return Array.isArray(stored)
+      ? stored.filter((profile) => profile?.id && profile.margins)
+      : []
+  } catch {
+    return []
+  }
+}
+
+export function usePrinterProfiles() {
+  const [profiles, setProfiles] = React.useState<PrinterProfile[]>(loadPrinterProfiles)
+
+  React.useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles))
+  }, [profiles])
+
+  const addProfile = React.useCallback((name: string, margins: Edges) => {
+    const profile: PrinterProfile = {
+      id: `printer-${Date.now().toString(36)}`,
+      name,
+      margins,
+      custom: true,
+    }
+    setProfiles((prev) => [...prev, profile])
+    return profile
+  }, [])
+
+  const removeProfile = React.useCallback((id: string) => {
+    setProfiles((prev) => prev.filter((profile) => profile.id !== id))
+  }, [])
+
+  return { profiles, addProfile, removeProfile }
+}
@@ -0,0 +1,122 @@
+import * as React from "react"
+
+import type { EstimateJob, PdfJob, RenderRequest, RenderResponse, RenderStage, SliceJob, ZipJob } from "@/lib/render"
+
+export interface RenderTaskOptions {
+  signal?: AbortSignal
+  onProgress?: (done: number, total: number, stage: RenderStage) => void
+}
+
+const abortError = () => new DOMException("Operação cancelada", "AbortError")
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError"
+
+// Os trabalhos dividem um worker; cancelar encerra o worker com tudo que estava nele e o próximo trabalho cria outro
+export function useRenderWorker() {
+  const workerRef = React.useRef<Worker | null>(null)
+  const nextIdRef = React.useRef(0)
+  // Trabalhos em andamento; encerrar o worker rejeita todos eles
+  const pendingRef = React.useRef(new Set<(error: Error) => void>())
+
+  const terminate = React.useCallback((error: Error) => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+    const pending = [...pendingRef.current]
+    pendingRef.current.clear()
+    pending.forEach((fail) => fail(error))
+  }, [])
+
+  React.useEffect(() => () => terminate(abortError()), [terminate])
+
+  const run = React.useCallback(
+    <T>(request: RenderRequest, { signal, onProgress }: RenderTaskOptions, pick: (message: RenderResponse) => T | undefined) =>
+      new Promise<T>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(abortError())
+          return
+        }
+
+        const worker = (workerRef.current ??= new Worker(
+          new URL("../workers/render.worker.ts", import.meta.url),
+          { type: "module" }
+        ))
+
+        const fail = (error: Error) => {
+          cleanup()
+          reject(error)
+        }
+
+        const cleanup = () => {
+          pendingRef.current.delete(fail)
+          worker.removeEventListener("message", handleMessage)
+          worker.removeEventListener("error", handleError)
+          signal?.removeEventListener("abort", handleAbort)
+        }
+
+        const handleMessage = ({ data }: MessageEvent<RenderResponse>) => {
+          if (data.id !== request.id) return
+          if (data.type === "progress") {
+            onProgress?.(data.done, data.total, data.stage)
+          } else if (data.type === "error") {
+            fail(new Error(data.message))
+          } else {
+            const result = pick(data)
+            if (result !== undefined) {
+              cleanup()
+              resolve(result)
+            }
+          }
+        }
+
+        const handleError = (event: ErrorEvent) =>
+          terminate(new Error(event.message || "Falha no processamento em segundo plano"))
+
+        const handleAbort = () => terminate(abortError())
+
+        pendingRef.current.add(fail)
+        worker.addEventListener("message", handleMessage)
+        worker.addEventListener("error", handleError)
+        signal?.addEventListener("abort", handleAbort)
+        worker.postMessage(request)
+      }),
+    [terminate]
+  )
+
+  const slice = React.useCallback(
+    (job: SliceJob, options: RenderTaskOptions = {}) =>
+      run({ type: "slice", id: ++nextIdRef.current, ...job }, options, (message) =>
+        message.type === "sliced" ? { pieces: message.pieces, coverage: message.coverage } : undefined
+      ),
+    [run]
+  )
+
+  const buildPdf = React.useCallback(
+    (job: PdfJob, options: RenderTaskOptions = {}) =>
+      run({ type: "pdf", id: ++nextIdRef.current, ...job }, options, (message) =>
+        message.type === "pdf" ? message.pdf : undefined
+      ),
+    [run]
+  )
+
+  const buildZip = React.useCallback(
+    (job: ZipJob, options: RenderTaskOptions = {}) =>
+      run({ type: "zip", id: ++nextIdRef.current, ...job }, options, (message) =>
+        message.type === "zip" ? message.zip : undefined
+      ),
+    [run]
+  )
+
+  const estimateSizes = React.useCallback(
+    (job: EstimateJob, options: RenderTaskOptions = {}) =>
+      run({ type: "estimate", id: ++nextIdRef.current, ...job }, options, (message) =>
+        message.type === "estimated" ? message.bytes : undefined
+      ),
+    [run]
+  )
+
+  return React.useMemo(
+    () => ({ slice, buildPdf, buildZip, estimateSizes }),
+    [slice, buildPdf, buildZip, estimateSizes]
+  )
+}
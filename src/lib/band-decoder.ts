@@ -0,0 +1,71 @@
+import { openJpegDecoder } from "@/lib/jpeg-decoder";
+import { openPngDecoder } from "@/lib/png-decoder";
+
+/** Linhas consecutivas da imagem, em RGBA */
+export interface ImageRows {
+  y: number;
+  height: number;
+  pixels: Uint8ClampedArray;
+}
+
+/** Decodificador que entrega a imagem de cima para baixo, sem guardá-la inteira */
+export interface RowDecoder {
+  width: number;
+  height: number;
+  /** Uma passada pelo arquivo; só as linhas em [from, to) são convertidas e entregues */
+  rows: (from: number, to: number) => AsyncGenerator<ImageRows>;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * Decodificador por linhas para PNG não entrelaçado e JPEG baseline, reconhecidos
+ * pelo conteúdo. Outros formatos (JPEG progressivo, PNG entrelaçado, WebP) devolvem
+ * null e ficam com o navegador.
+ */
+export const openRowDecoder = async (image: Blob): Promise<RowDecoder | null> => {
+  const head = new Uint8Array(await image.slice(0, PNG_SIGNATURE.length).arrayBuffer());
+  if (PNG_SIGNATURE.every((byte, i) => head[i] === byte)) return openPngDecoder(image);
+  if (head[0] === 0xff && head[1] === 0xd8) return openJpegDecoder(image);
+  return null;
+};
+
+/**
+ * Reagrupa as linhas em faixas de `bandRows` linhas. Cada faixa repete as últimas
+ * `overlap` linhas da anterior, para que a redução de uma faixa não deixe emenda
+ * visível na página. A faixa entregue é reaproveitada: use-a antes de pedir a próxima.
+ */
+export async function* imageBands(
+  decoder: RowDecoder,
+  bandRows: number,
+  overlap: number,
+  from: number,
+  to: number
+): AsyncGenerator<ImageRows> {
+  const rowBytes = decoder.width * 4;
+  const rows = Math.max(bandRows, overlap + 1);
+  const band = new Uint8ClampedArray(rows * rowBytes);
+  let y = from;
+  let filled = 0;
+  let fresh = 0;
+
+  for await (const chunk of decoder.rows(from, to)) {
+    for (let offset = 0; offset < chunk.height;) {
+      const count = Math.min(chunk.height - offset, rows - filled);
+      band.set(chunk.pixels.subarray(offset * rowBytes, (offset + count) * rowBytes), filled * rowBytes);
+      offset += count;
+      filled += count;
+      fresh += count;
+
+      if (filled === rows) {
+        yield { y, height: rows, pixels: band };
+        band.copyWithin(0, (rows - overlap) * rowBytes);
+        y += rows - overlap;
+        filled = overlap;
+        fresh = 0;
+      }
+    }
+  }
+
+  if (fresh > 0) yield { y, height: filled, pixels: band.subarray(0, filled * rowBytes) };
+}
@@ -0,0 +1,50 @@
+/**
+ * Leitura sequencial de um arquivo sem carregá-lo inteiro. Os bytes ainda não
+ * consumidos ficam em `bytes[pos..]`; quem lê avança `pos` e pede mais com `fill`.
+ */
+export interface ByteStream {
+  bytes: Uint8Array;
+  pos: number;
+  /** Garante ao menos `count` bytes a partir de `pos` (menos só no fim do arquivo); devolve quantos há */
+  fill: (count: number) => Promise<number>;
+  close: () => Promise<void>;
+}
+
+export const openByteStream = (file: Blob): ByteStream => {
+  const reader = file.stream().getReader();
+  let ended = false;
+
+  const stream: ByteStream = {
+    bytes: new Uint8Array(0),
+    pos: 0,
+    fill: async (count) => {
+      let available = stream.bytes.length - stream.pos;
+      if (available >= count || ended) return available;
+
+      // Lê o dobro do pedido: cada recarga copia o que sobrou, e assim as cópias não se repetem a cada pedido
+      const parts = [stream.bytes.subarray(stream.pos)];
+      while (available < count * 2) {
+        const { value, done } = await reader.read();
+        if (done) {
+          ended = true;
+          break;
+        }
+        parts.push(value);
+        available += value.length;
+      }
+
+      const merged = new Uint8Array(available);
+      let offset = 0;
+      for (const part of parts) {
+        merged.set(part, offset);
+        offset += part.length;
+      }
+      stream.bytes = merged;
+      stream.pos = 0;
+      return available;
+    },
+    close: () => reader.cancel()
+  };
+
+  return stream;
+};
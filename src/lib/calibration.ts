@@ -0,0 +1,96 @@
+import jsPDF from "jspdf";
+import { printableArea, type PageSetup } from "@/lib/layout";
+import { getPageSize } from "@/lib/paper";
+
+/** Fatores aplicados ao PDF para desfazer o erro de escala da impressora */
+export interface PrinterCalibration {
+  scaleX: number;
+  scaleY: number;
+}
+
+export const IDENTITY_CALIBRATION: PrinterCalibration = { scaleX: 1, scaleY: 1 };
+
+const RULER_OFFSET = 6; // mm entre o quadrado e a régua
+
+// Lado do quadrado de referência: 100 mm quando cabe, senão o maior múltiplo de 10 mm
+export const calibrationSquareSize = (page: PageSetup) => {
+  const printable = printableArea(page);
+  const available = Math.min(printable.width, printable.height) - 2 * (RULER_OFFSET + 8);
+  return Math.max(10, Math.min(100, Math.floor(available / 10) * 10));
+};
+
+// Se a impressora imprimiu o quadrado com `measured` mm, o PDF precisa ser ampliado na razão inversa
+export const calibrationFromMeasurement = (
+  expected: number,
+  measuredWidth: number,
+  measuredHeight: number
+): PrinterCalibration => ({
+  scaleX: expected / measuredWidth,
+  scaleY: expected / measuredHeight
+});
+
+// Régua em mm com traços a cada 1, 5 e 10 mm e números em centímetros
+const ruler = (pdf: jsPDF, x: number, y: number, length: number, vertical: boolean) => {
+  pdf.line(x, y, vertical ? x : x + length, vertical ? y + length : y);
+  for (let mm = 0; mm <= length; mm++) {
+    const tick = mm % 10 === 0 ? 4 : mm % 5 === 0 ? 2.5 : 1.5;
+    if (vertical) {
+      pdf.line(x, y + mm, x - tick, y + mm);
+      if (mm % 10 === 0) pdf.text(`${mm / 10}`, x - 5, y + mm, { align: 'right', baseline: 'middle' });
+    } else {
+      pdf.line(x + mm, y, x + mm, y - tick);
+      if (mm % 10 === 0) pdf.text(`${mm / 10}`, x + mm, y - 5, { align: 'center' });
+    }
+  }
+};
+
+// Folha de uma página com o quadrado de referência e réguas, sem nenhuma compensação
+export const buildCalibrationPdf = (page: PageSetup) => {
+  const { width: pageWidth, height: pageHeight } = getPageSize(page.paper, page.orientation);
+  const printable = printableArea(page);
+  const size = calibrationSquareSize(page);
+
+  const pdf = new jsPDF({
+    orientation: page.orientation,
+    unit: 'mm',
+    format: [pageWidth, pageHeight]
+  });
+
+  pdf.setTextColor(30);
+  pdf.setFontSize(14);
+  pdf.text('Folha de calibração', printable.x, printable.y + 6);
+  pdf.setFontSize(8.5);
+  pdf.setTextColor(80);
+  pdf.text(
+    [
+      'Imprima em tamanho real (100%), com a mesma impressora e papel do pôster.',
+      `Meça a largura e a altura do quadrado (deveriam ter ${size} mm) e informe os valores no aplicativo.`
+    ],
+    printable.x,
+    printable.y + 12
+  );
+
+  const x = printable.x + (printable.width - size) / 2;
+  const y = printable.y + (printable.height - size) / 2;
+
+  pdf.setDrawColor(0);
+  pdf.setLineWidth(0.3);
+  pdf.rect(x, y, size, size, 'S');
+
+  // Diagonais ajudam a perceber distorções além da escala
+  pdf.setLineWidth(0.1);
+  pdf.line(x, y, x + size, y + size);
+  pdf.line(x + size, y, x, y + size);
+
+  pdf.setFontSize(6);
+  pdf.setTextColor(60);
+  ruler(pdf, x, y - RULER_OFFSET, size, false);
+  ruler(pdf, x - RULER_OFFSET, y, size, true);
+
+  pdf.setFontSize(9);
+  pdf.setTextColor(30);
+  pdf.text(`Largura: ${size} mm`, x + size / 2, y + size + 6, { align: 'center' });
+  pdf.text(`Altura: ${size} mm`, x + size + 6, y + size / 2, { baseline: 'middle' });
+
+  return pdf;
+};
@@ -0,0 +1,95 @@
+import type { Rect } from "@/lib/layout";
+
+export type CropHandle = 'nw' | 'ne' | 'sw' | 'se';
+
+// Menor recorte permitido, em pixels da imagem
+const minCropSize = (imageWidth: number, imageHeight: number) =>
+  Math.max(8, Math.min(imageWidth, imageHeight) * 0.02);
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+export const fullCrop = (imageWidth: number, imageHeight: number): Rect => ({
+  x: 0,
+  y: 0,
+  width: imageWidth,
+  height: imageHeight
+});
+
+export const isFullCrop = (crop: Rect, imageWidth: number, imageHeight: number) =>
+  crop.x <= 0 && crop.y <= 0 && crop.width >= imageWidth && crop.height >= imageHeight;
+
+// Arrasta o recorte sem deixá-lo sair da imagem
+export const moveCrop = (crop: Rect, dx: number, dy: number, imageWidth: number, imageHeight: number): Rect => ({
+  ...crop,
+  x: clamp(crop.x + dx, 0, imageWidth - crop.width),
+  y: clamp(crop.y + dy, 0, imageHeight - crop.height)
+});
+
+/**
+ * Redimensiona pelo canto `handle`, mantendo o canto oposto fixo. Com `aspect`
+ * (largura / altura) a proporção é preservada e o recorte continua dentro da imagem.
+ */
+export const resizeCrop = (
+  crop: Rect,
+  handle: CropHandle,
+  point: { x: number; y: number },
+  imageWidth: number,
+  imageHeight: number,
+  aspect?: number
+): Rect => {
+  const towardsRight = handle === 'ne' || handle === 'se';
+  const towardsBottom = handle === 'sw' || handle === 'se';
+  const anchorX = towardsRight ? crop.x : crop.x + crop.width;
+  const anchorY = towardsBottom ? crop.y : crop.y + crop.height;
+
+  const minSize = minCropSize(imageWidth, imageHeight);
+  const maxWidth = towardsRight ? imageWidth - anchorX : anchorX;
+  const maxHeight = towardsBottom ? imageHeight - anchorY : anchorY;
+
+  let width = clamp(towardsRight ? point.x - anchorX : anchorX - point.x, minSize, maxWidth);
+  let height = clamp(towardsBottom ? point.y - anchorY : anchorY - point.y, minSize, maxHeight);
+
+  if (aspect) {
+    if (width / height > aspect) {
+      width = height * aspect;
+    } else {
+      height = width / aspect;
+    }
+    if (width > maxWidth) {
+      width = maxWidth;
+      height = width / aspect;
+    }
+    if (height > maxHeight) {
+      height = maxHeight;
+      width = height * aspect;
+    }
+  }
+
+  return {
+    x: towardsRight ? anchorX : anchorX - width,
+    y: towardsBottom ? anchorY : anchorY - height,
+    width,
+    height
+  };
+};
+
+// Ajusta o recorte à proporção pedida, mantendo o centro e a maior área possível
+export const fitCropToAspect = (crop: Rect, aspect: number, imageWidth: number, imageHeight: number): Rect => {
+  let width = Math.min(crop.width, imageWidth);
+  let height = Math.min(crop.height, imageHeight);
+
+  if (width / height > aspect) {
+    width = height * aspect;
+  } else {
+    height = width / aspect;
+  }
+
+  const centerX = crop.x + crop.width / 2;
+  const centerY = crop.y + crop.height / 2;
+  return {
+    x: clamp(centerX - width / 2, 0, imageWidth - width),
+    y: clamp(centerY - height / 2, 0, imageHeight - height),
+    width,
+    height
+  };
+};
@@ -0,0 +1,10 @@
+// Dispara o download de um arquivo gerado no navegador
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Alguns navegadores ainda leem a URL logo depois do clique
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,69 @@
+import { IDENTITY_TRANSFORM, type ImageTransform } from "@/lib/transform";
+
+const ORIENTATION_TAG = 0x0112;
+const EXIF_SCAN_BYTES = 128 * 1024;
+
+// Valores 1–8 da tag Orientation convertidos para espelhamento + rotação horária
+const EXIF_TRANSFORMS: Record<number, ImageTransform> = {
+  1: IDENTITY_TRANSFORM,
+  2: { rotation: 0, flipH: true, flipV: false },
+  3: { rotation: 180, flipH: false, flipV: false },
+  4: { rotation: 0, flipH: false, flipV: true },
+  5: { rotation: 270, flipH: true, flipV: false },
+  6: { rotation: 90, flipH: false, flipV: false },
+  7: { rotation: 90, flipH: true, flipV: false },
+  8: { rotation: 270, flipH: false, flipV: false }
+};
+
+// Navegadores atuais já desenham JPEGs na orientação do EXIF; aplicar de novo giraria duas vezes
+export const browserAppliesExifOrientation = () =>
+  typeof CSS !== 'undefined' && CSS.supports('image-orientation', 'from-image');
+
+// Lê a tag Orientation do bloco APP1/Exif de um JPEG; devolve 1 quando não há informação
+export const readExifOrientation = async (file: Blob): Promise<number> => {
+  if (file.type !== 'image/jpeg') return 1;
+
+  const view = new DataView(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+
+    // APP1 começando com "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return 1;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === ORIENTATION_TAG) {
+          return view.getUint16(entry + 8, little);
+        }
+      }
+      return 1;
+    }
+
+    // Fim dos cabeçalhos: a imagem começou e não há EXIF
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) return 1;
+    offset += 2 + length;
+  }
+
+  return 1;
+};
+
+// Transformação que o EXIF pede, para quem decodifica o arquivo sem o navegador
+export const exifOrientationTransform = async (file: Blob): Promise<ImageTransform> =>
+  EXIF_TRANSFORMS[await readExifOrientation(file)] ?? IDENTITY_TRANSFORM;
+
+// Transformação inicial para a foto ficar em pé, considerando o que o navegador já faz
+export const exifTransform = async (file: File): Promise<ImageTransform> => {
+  if (browserAppliesExifOrientation()) return IDENTITY_TRANSFORM;
+  return exifOrientationTransform(file);
+};
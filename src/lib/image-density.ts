@@ -0,0 +1,90 @@
+import { crc32 } from "@/lib/zip";
+
+const INCHES_PER_METRE = 1000 / 25.4;
+
+const PNG_SIGNATURE_LENGTH = 8;
+const PNG_IHDR_END = PNG_SIGNATURE_LENGTH + 8 + 13 + 4;
+
+const ascii = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+/**
+ * Grava a densidade (pixels por metro, unidade 1) no bloco pHYs do PNG, logo depois
+ * do IHDR como a especificação pede; um pHYs que já exista é descartado.
+ */
+export const setPngDensity = (png: Uint8Array, dpiX: number, dpiY: number) => {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: Uint8Array[] = [png.subarray(0, PNG_IHDR_END)];
+
+  const phys = new Uint8Array(21);
+  const physView = new DataView(phys.buffer);
+  physView.setUint32(0, 9);
+  phys.set(ascii('pHYs'), 4);
+  physView.setUint32(8, Math.round(dpiX * INCHES_PER_METRE));
+  physView.setUint32(12, Math.round(dpiY * INCHES_PER_METRE));
+  phys[16] = 1;
+  physView.setUint32(17, crc32(phys.subarray(4, 17)));
+  chunks.push(phys);
+
+  let offset = PNG_IHDR_END;
+  while (offset + 8 <= png.length) {
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    if (type !== 'pHYs') chunks.push(png.subarray(offset, end));
+    offset = end;
+  }
+
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let position = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, position);
+    position += chunk.length;
+  }
+  return result;
+};
+
+/**
+ * Grava a densidade (pontos por polegada) no segmento APP0/JFIF do JPEG. O canvas
+ * sempre escreve esse segmento; se faltar, um novo é inserido depois do SOI.
+ */
+export const setJpegDensity = (jpeg: Uint8Array, dpiX: number, dpiY: number) => {
+  const view = new DataView(jpeg.buffer, jpeg.byteOffset, jpeg.byteLength);
+  const x = Math.min(0xffff, Math.round(dpiX));
+  const y = Math.min(0xffff, Math.round(dpiY));
+
+  const hasJfif = view.getUint16(2) === 0xffe0 && String.fromCharCode(...jpeg.subarray(6, 11)) === 'JFIF\0';
+  if (hasJfif) {
+    const result = jpeg.slice();
+    const resultView = new DataView(result.buffer);
+    result[13] = 1;
+    resultView.setUint16(14, x);
+    resultView.setUint16(16, y);
+    return result;
+  }
+
+  const app0 = new Uint8Array(18);
+  const app0View = new DataView(app0.buffer);
+  app0View.setUint16(0, 0xffe0);
+  app0View.setUint16(2, 16);
+  app0.set(ascii('JFIF\0'), 4);
+  app0View.setUint16(9, 0x0101);
+  app0[11] = 1;
+  app0View.setUint16(12, x);
+  app0View.setUint16(14, y);
+
+  const result = new Uint8Array(jpeg.length + app0.length);
+  result.set(jpeg.subarray(0, 2));
+  result.set(app0, 2);
+  result.set(jpeg.subarray(2), 2 + app0.length);
+  return result;
+};
+
+// Densidade de impressão na imagem para ela abrir no tamanho físico certo; WebP não tem campo padrão
+export const withDensity = async (image: Blob, dpiX: number, dpiY: number) => {
+  if (image.type !== 'image/png' && image.type !== 'image/jpeg') return image;
+  const bytes = new Uint8Array(await image.arrayBuffer());
+  const updated = image.type === 'image/png'
+    ? setPngDensity(bytes, dpiX, dpiY)
+    : setJpegDensity(bytes, dpiX, dpiY);
+  return new Blob([updated], { type: image.type });
+};
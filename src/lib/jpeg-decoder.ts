@@ -0,0 +1,455 @@
+import type { ImageRows, RowDecoder } from "@/lib/band-decoder";
+import { openByteStream, type ByteStream } from "@/lib/byte-stream";
+
+interface ComponentSpec {
+  id: number;
+  h: number;
+  v: number;
+  quant: number;
+}
+
+interface JpegComponent {
+  h: number;
+  v: number;
+  /** Tabela de quantização em ordem natural, já com os fatores da IDCT AAN */
+  quant: Float32Array;
+  dc: Uint16Array;
+  ac: Uint16Array;
+  pred: number;
+  /** Amostras de uma linha de MCUs */
+  plane: Uint8ClampedArray;
+  stride: number;
+  /** Coluna da amostra para cada coluna da imagem (subamostragem) */
+  columns: Int32Array;
+}
+
+interface JpegScan {
+  width: number;
+  height: number;
+  /** Componentes na ordem da varredura, que é a mesma do quadro */
+  components: JpegComponent[];
+  vmax: number;
+  mcusPerLine: number;
+  mcuRows: number;
+  restartInterval: number;
+  rgb: boolean;
+}
+
+// Posição natural de cada coeficiente na ordem em zigue-zague
+const ZIGZAG = new Int32Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63
+]);
+
+// Fatores de escala da IDCT AAN (jidctflt.c da libjpeg)
+const AAN_SCALE = [1, 1.387039845, 1.306562965, 1.175875602, 1, 0.785694958, 0.5411961, 0.275899379];
+
+// Pior caso de uma unidade de dados com bytes de enchimento, com folga
+const MAX_BLOCK_BYTES = 420;
+
+const parseQuant = (segment: Uint8Array, tables: Float32Array[]) => {
+  for (let at = 0; at < segment.length;) {
+    const wide = segment[at] >> 4;
+    const table = new Float32Array(64);
+    for (let k = 0; k < 64; k++) {
+      const value = wide ? (segment[at + 1 + k * 2] << 8) | segment[at + 2 + k * 2] : segment[at + 1 + k];
+      const n = ZIGZAG[k];
+      table[n] = value * AAN_SCALE[n >> 3] * AAN_SCALE[n & 7];
+    }
+    tables[segment[at] & 15] = table;
+    at += 1 + 64 * (wide ? 2 : 1);
+  }
+};
+
+// Tabela de consulta por 16 bits: (tamanho do código << 8) | símbolo; 0 é código inválido
+const huffmanLookup = (counts: Uint8Array, symbols: Uint8Array) => {
+  const table = new Uint16Array(1 << 16);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < counts[length - 1]; i++, k++, code++) {
+      const first = code << (16 - length);
+      table.fill((length << 8) | symbols[k], first, first + (1 << (16 - length)));
+    }
+    code <<= 1;
+  }
+  return table;
+};
+
+const parseHuffman = (segment: Uint8Array, dc: Uint16Array[], ac: Uint16Array[]) => {
+  for (let at = 0; at < segment.length;) {
+    const counts = segment.subarray(at + 1, at + 17);
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    const table = huffmanLookup(counts, segment.subarray(at + 17, at + 17 + total));
+    (segment[at] >> 4 ? ac : dc)[segment[at] & 15] = table;
+    at += 17 + total;
+  }
+};
+
+// Só 8 bits, cinza ou três componentes, com a altura no cabeçalho (sem DNL)
+const parseFrame = (segment: Uint8Array) => {
+  const precision = segment[0];
+  const height = (segment[1] << 8) | segment[2];
+  const width = (segment[3] << 8) | segment[4];
+  const count = segment[5];
+  if (precision !== 8 || !height || !width || (count !== 1 && count !== 3)) return null;
+
+  const specs: ComponentSpec[] = [];
+  for (let i = 0; i < count; i++) {
+    const at = 6 + i * 3;
+    specs.push({ id: segment[at], h: segment[at + 1] >> 4, v: segment[at + 1] & 15, quant: segment[at + 2] });
+  }
+  // Um componente só vem sem intercalação: cada MCU é um bloco, qualquer que seja o fator
+  if (count === 1) specs[0] = { ...specs[0], h: 1, v: 1 };
+  return specs.some((spec) => !spec.h || !spec.v) ? null : { width, height, specs };
+};
+
+/**
+ * Lê os segmentos até o início dos dados (SOS), deixando `pos` no primeiro byte
+ * comprimido. Devolve null para o que este decodificador não trata: JPEG progressivo,
+ * sem perdas ou aritmético, CMYK, 12 bits e varreduras separadas por componente.
+ */
+const readHeaders = async (stream: ByteStream): Promise<JpegScan | null> => {
+  if (await stream.fill(2) < 2 || stream.bytes[0] !== 0xff || stream.bytes[1] !== 0xd8) return null;
+  stream.pos = 2;
+
+  const quant: Float32Array[] = [];
+  const dc: Uint16Array[] = [];
+  const ac: Uint16Array[] = [];
+  let frame: ReturnType<typeof parseFrame> = null;
+  let restartInterval = 0;
+  let adobeTransform: number | null = null;
+
+  for (;;) {
+    if (await stream.fill(4) < 4) return null;
+    if (stream.bytes[stream.pos] !== 0xff) return null;
+    const marker = stream.bytes[stream.pos + 1];
+    // Bytes 0xFF de enchimento antes do marcador
+    if (marker === 0xff) {
+      stream.pos++;
+      continue;
+    }
+    const length = (stream.bytes[stream.pos + 2] << 8) | stream.bytes[stream.pos + 3];
+    if (await stream.fill(2 + length) < 2 + length) return null;
+    const segment = stream.bytes.subarray(stream.pos + 4, stream.pos + 2 + length);
+    stream.pos += 2 + length;
+
+    if (marker === 0xdb) {
+      parseQuant(segment, quant);
+    } else if (marker === 0xc4) {
+      parseHuffman(segment, dc, ac);
+    } else if (marker === 0xdd) {
+      restartInterval = (segment[0] << 8) | segment[1];
+    } else if (marker === 0xee && String.fromCharCode(...segment.subarray(0, 5)) === 'Adobe') {
+      adobeTransform = segment[11];
+    } else if (marker === 0xc0 || marker === 0xc1) {
+      frame = parseFrame(segment);
+      if (!frame) return null;
+    } else if (marker >= 0xc2 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return null;
+    } else if (marker === 0xd9) {
+      return null;
+    } else if (marker === 0xda) {
+      if (!frame || segment[0] !== frame.specs.length) return null;
+      const { width, height, specs } = frame;
+      const hmax = Math.max(...specs.map((spec) => spec.h));
+      const vmax = Math.max(...specs.map((spec) => spec.v));
+      const mcusPerLine = Math.ceil(width / (8 * hmax));
+
+      const components: JpegComponent[] = [];
+      for (let i = 0; i < specs.length; i++) {
+        const spec = specs.find((candidate) => candidate.id === segment[1 + i * 2]);
+        const tables = segment[2 + i * 2];
+        if (!spec || !quant[spec.quant] || !dc[tables >> 4] || !ac[tables & 15]) return null;
+        const stride = mcusPerLine * spec.h * 8;
+        components.push({
+          h: spec.h,
+          v: spec.v,
+          quant: quant[spec.quant],
+          dc: dc[tables >> 4],
+          ac: ac[tables & 15],
+          pred: 0,
+          plane: new Uint8ClampedArray(stride * spec.v * 8),
+          stride,
+          columns: Int32Array.from({ length: width }, (_, x) => Math.floor(x * spec.h / hmax))
+        });
+      }
+
+      // Três componentes são YCbCr, salvo o Adobe dizer que não há conversão ou os ids serem "R", "G", "B"
+      const ids = String.fromCharCode(...specs.map((spec) => spec.id));
+      const rgb = specs.length === 3 && (adobeTransform === 0 || (adobeTransform === null && ids === 'RGB'));
+      return {
+        width,
+        height,
+        components,
+        vmax,
+        mcusPerLine,
+        mcuRows: Math.ceil(height / (8 * vmax)),
+        restartInterval,
+        rgb
+      };
+    }
+  }
+};
+
+// IDCT 8×8 em ponto flutuante (AAN, como a jidctflt.c), gravando as amostras no plano
+const idct = (block: Int32Array, quant: Float32Array, work: Float32Array, out: Uint8ClampedArray, offset: number, stride: number) => {
+  for (let c = 0; c < 8; c++) {
+    if (!block[8 + c] && !block[16 + c] && !block[24 + c] && !block[32 + c] && !block[40 + c] && !block[48 + c] && !block[56 + c]) {
+      const dc = block[c] * quant[c];
+      for (let r = 0; r < 64; r += 8) work[r + c] = dc;
+      continue;
+    }
+
+    let tmp0 = block[c] * quant[c];
+    let tmp1 = block[16 + c] * quant[16 + c];
+    let tmp2 = block[32 + c] * quant[32 + c];
+    let tmp3 = block[48 + c] * quant[48 + c];
+    let tmp10 = tmp0 + tmp2;
+    let tmp11 = tmp0 - tmp2;
+    const tmp13 = tmp1 + tmp3;
+    let tmp12 = (tmp1 - tmp3) * 1.414213562 - tmp13;
+    tmp0 = tmp10 + tmp13;
+    tmp3 = tmp10 - tmp13;
+    tmp1 = tmp11 + tmp12;
+    tmp2 = tmp11 - tmp12;
+
+    let tmp4 = block[8 + c] * quant[8 + c];
+    let tmp5 = block[24 + c] * quant[24 + c];
+    let tmp6 = block[40 + c] * quant[40 + c];
+    let tmp7 = block[56 + c] * quant[56 + c];
+    const z13 = tmp6 + tmp5;
+    const z10 = tmp6 - tmp5;
+    const z11 = tmp4 + tmp7;
+    const z12 = tmp4 - tmp7;
+    tmp7 = z11 + z13;
+    tmp11 = (z11 - z13) * 1.414213562;
+    const z5 = (z10 + z12) * 1.847759065;
+    tmp10 = z5 - z12 * 1.082392200;
+    tmp12 = z5 - z10 * 2.613125930;
+    tmp6 = tmp12 - tmp7;
+    tmp5 = tmp11 - tmp6;
+    tmp4 = tmp10 - tmp5;
+
+    work[c] = tmp0 + tmp7;
+    work[56 + c] = tmp0 - tmp7;
+    work[8 + c] = tmp1 + tmp6;
+    work[48 + c] = tmp1 - tmp6;
+    work[16 + c] = tmp2 + tmp5;
+    work[40 + c] = tmp2 - tmp5;
+    work[24 + c] = tmp3 + tmp4;
+    work[32 + c] = tmp3 - tmp4;
+  }
+
+  for (let r = 0; r < 64; r += 8) {
+    let tmp10 = work[r] + work[r + 4];
+    let tmp11 = work[r] - work[r + 4];
+    const tmp13 = work[r + 2] + work[r + 6];
+    let tmp12 = (work[r + 2] - work[r + 6]) * 1.414213562 - tmp13;
+    const tmp0 = tmp10 + tmp13;
+    const tmp3 = tmp10 - tmp13;
+    const tmp1 = tmp11 + tmp12;
+    const tmp2 = tmp11 - tmp12;
+
+    const z13 = work[r + 5] + work[r + 3];
+    const z10 = work[r + 5] - work[r + 3];
+    const z11 = work[r + 1] + work[r + 7];
+    const z12 = work[r + 1] - work[r + 7];
+    const tmp7 = z11 + z13;
+    tmp11 = (z11 - z13) * 1.414213562;
+    const z5 = (z10 + z12) * 1.847759065;
+    tmp10 = z5 - z12 * 1.082392200;
+    tmp12 = z5 - z10 * 2.613125930;
+    const tmp6 = tmp12 - tmp7;
+    const tmp5 = tmp11 - tmp6;
+    const tmp4 = tmp10 - tmp5;
+
+    // Divide por 8 (escala da AAN) e volta ao intervalo 0–255; o Uint8ClampedArray arredonda e limita
+    const at = offset + (r >> 3) * stride;
+    out[at] = (tmp0 + tmp7) / 8 + 128;
+    out[at + 7] = (tmp0 - tmp7) / 8 + 128;
+    out[at + 1] = (tmp1 + tmp6) / 8 + 128;
+    out[at + 6] = (tmp1 - tmp6) / 8 + 128;
+    out[at + 2] = (tmp2 + tmp5) / 8 + 128;
+    out[at + 5] = (tmp2 - tmp5) / 8 + 128;
+    out[at + 3] = (tmp3 + tmp4) / 8 + 128;
+    out[at + 4] = (tmp3 - tmp4) / 8 + 128;
+  }
+};
+
+// Converte as linhas [first, last) da linha de MCUs para RGBA
+const writeRows = (scan: JpegScan, first: number, last: number, pixels: Uint8ClampedArray) => {
+  const { width, components, vmax } = scan;
+  let o = 0;
+
+  for (let line = first; line < last; line++) {
+    if (components.length === 1) {
+      const [gray] = components;
+      const row = line * gray.stride;
+      for (let x = 0; x < width; x++, o += 4) {
+        pixels[o] = pixels[o + 1] = pixels[o + 2] = gray.plane[row + x];
+        pixels[o + 3] = 255;
+      }
+      continue;
+    }
+
+    const [a, b, c] = components;
+    const rowA = Math.floor(line * a.v / vmax) * a.stride;
+    const rowB = Math.floor(line * b.v / vmax) * b.stride;
+    const rowC = Math.floor(line * c.v / vmax) * c.stride;
+    for (let x = 0; x < width; x++, o += 4) {
+      const s0 = a.plane[rowA + a.columns[x]];
+      const s1 = b.plane[rowB + b.columns[x]];
+      const s2 = c.plane[rowC + c.columns[x]];
+      if (scan.rgb) {
+        pixels[o] = s0;
+        pixels[o + 1] = s1;
+        pixels[o + 2] = s2;
+      } else {
+        pixels[o] = s0 + 1.402 * (s2 - 128);
+        pixels[o + 1] = s0 - 0.344136 * (s1 - 128) - 0.714136 * (s2 - 128);
+        pixels[o + 2] = s0 + 1.772 * (s1 - 128);
+      }
+      pixels[o + 3] = 255;
+    }
+  }
+};
+
+/**
+ * Decodifica uma linha de MCUs por vez (8 ou 16 linhas da imagem). As anteriores a
+ * `from` só passam pelo Huffman, sem IDCT; a leitura para depois de `to`.
+ */
+async function* jpegRows(image: Blob, from: number, to: number): AsyncGenerator<ImageRows> {
+  const stream = openByteStream(image);
+
+  try {
+    const scan = await readHeaders(stream);
+    if (!scan) throw new Error('JPEG não suportado');
+    const { width, components, mcusPerLine, mcuRows, restartInterval } = scan;
+    const mcuHeight = 8 * scan.vmax;
+    const blocksPerMcu = components.reduce((sum, component) => sum + component.h * component.v, 0);
+    const rowBudget = mcusPerLine * (blocksPerMcu * MAX_BLOCK_BYTES + 2) + 1024;
+    const block = new Int32Array(64);
+    const work = new Float32Array(64);
+
+    // Leitor de bits: bytes 0xFF 0x00 viram 0xFF; num marcador os dados acabam e o resto é zero
+    let bytes = stream.bytes;
+    let pos = stream.pos;
+    let bits = 0;
+    let count = 0;
+    let atMarker = false;
+
+    const readByte = () => {
+      if (atMarker || pos >= bytes.length) return 0;
+      const byte = bytes[pos];
+      if (byte === 0xff) {
+        if (bytes[pos + 1] !== 0) {
+          atMarker = true;
+          return 0;
+        }
+        pos += 2;
+        return byte;
+      }
+      pos++;
+      return byte;
+    };
+    const receive = (length: number) => {
+      while (count < length) {
+        bits = (bits << 8) | readByte();
+        count += 8;
+      }
+      count -= length;
+      return (bits >>> count) & ((1 << length) - 1);
+    };
+    const extend = (value: number, length: number) => (value < 1 << (length - 1) ? value - (1 << length) + 1 : value);
+    const decodeSymbol = (table: Uint16Array) => {
+      while (count < 16) {
+        bits = (bits << 8) | readByte();
+        count += 8;
+      }
+      const entry = table[(bits >>> (count - 16)) & 0xffff];
+      if (!entry) throw new Error('JPEG corrompido');
+      count -= entry >> 8;
+      return entry & 0xff;
+    };
+    const decodeBlock = (component: JpegComponent) => {
+      block.fill(0);
+      const size = decodeSymbol(component.dc);
+      component.pred += size ? extend(receive(size), size) : 0;
+      block[0] = component.pred;
+      for (let k = 1; k < 64;) {
+        const symbol = decodeSymbol(component.ac);
+        const run = symbol >> 4;
+        const length = symbol & 15;
+        if (!length) {
+          if (run !== 15) break;
+          k += 16;
+          continue;
+        }
+        k += run;
+        if (k > 63) break;
+        block[ZIGZAG[k]] = extend(receive(length), length);
+        k++;
+      }
+    };
+    // Marcador RSTn: descarta os bits que sobraram e zera os preditores
+    const restart = () => {
+      count = 0;
+      atMarker = false;
+      while (pos + 1 < bytes.length && !(bytes[pos] === 0xff && bytes[pos + 1] >= 0xd0 && bytes[pos + 1] <= 0xd7)) pos++;
+      pos += 2;
+      for (const component of components) component.pred = 0;
+    };
+
+    let mcu = 0;
+    for (let mcuRow = 0; mcuRow < mcuRows; mcuRow++) {
+      const top = mcuRow * mcuHeight;
+      if (top >= to) break;
+
+      stream.pos = pos;
+      await stream.fill(rowBudget);
+      bytes = stream.bytes;
+      pos = stream.pos;
+
+      const visible = top + mcuHeight > from;
+      for (let column = 0; column < mcusPerLine; column++, mcu++) {
+        if (restartInterval && mcu > 0 && mcu % restartInterval === 0) restart();
+        for (const component of components) {
+          for (let by = 0; by < component.v; by++) {
+            for (let bx = 0; bx < component.h; bx++) {
+              decodeBlock(component);
+              if (visible) {
+                const offset = by * 8 * component.stride + (column * component.h + bx) * 8;
+                idct(block, component.quant, work, component.plane, offset, component.stride);
+              }
+            }
+          }
+        }
+      }
+
+      if (visible) {
+        const first = Math.max(from, top);
+        const last = Math.min(to, scan.height, top + mcuHeight);
+        const pixels = new Uint8ClampedArray((last - first) * width * 4);
+        writeRows(scan, first - top, last - top, pixels);
+        yield { y: first, height: last - first, pixels };
+      }
+    }
+  } finally {
+    await stream.close();
+  }
+}
+
+export const openJpegDecoder = async (image: Blob): Promise<RowDecoder | null> => {
+  const stream = openByteStream(image);
+  const scan = await readHeaders(stream).finally(() => stream.close());
+  if (!scan) return null;
+
+  return {
+    width: scan.width,
+    height: scan.height,
+    rows: (from, to) => jpegRows(image, Math.max(0, from), Math.min(scan.height, to))
+  };
+};
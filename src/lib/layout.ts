@@ -0,0 +1,327 @@
+import { getPageSize, type Orientation, type PaperSize } from "@/lib/paper";
+
+export interface GridConfig {
+  horizontal: number;
+  vertical: number;
+  /** Faixa de imagem (mm) repetida nas bordas compartilhadas, usada para colar as folhas */
+  overlap: number;
+}
+
+export interface Edges {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TileLayout {
+  index: number;
+  col: number;
+  row: number;
+  /** Região da imagem original (px) que cai nesta página, incluindo a sobreposição */
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+  /** Onde essa região é impressa na página (mm); vazio se a página só tem papel em branco */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Largura da sobreposição (mm) em cada borda que tem vizinho */
+  overlap: Edges;
+}
+
+export type SizeUnit = 'cm' | 'in';
+
+/** Tamanho final desejado para o pôster, em uma das dimensões */
+export interface PosterSize {
+  dimension: 'width' | 'height';
+  value: number;
+  unit: SizeUnit;
+}
+
+export const MM_PER_UNIT: Record<SizeUnit, number> = { cm: 10, in: 25.4 };
+
+export interface PosterLayout {
+  columns: number;
+  rows: number;
+  tiles: TileLayout[];
+  /** Escala de impressão: milímetros ocupados por pixel da imagem */
+  mmPerPixel: number;
+  orientation: Orientation;
+  pageWidth: number;
+  pageHeight: number;
+  /** Área útil de cada página (mm); é a "janela" recortada da tela virtual */
+  printable: Rect;
+  /** Área que a impressora alcança (mm); entre ela e `printable` ficam marcas e indicações */
+  printArea: Rect;
+  /** Tamanho final do pôster impresso (mm) */
+  posterWidth: number;
+  posterHeight: number;
+  /** Posição do pôster na tela virtual coberta pela grade (mm) */
+  posterX: number;
+  posterY: number;
+  canvasWidth: number;
+  canvasHeight: number;
+  overlap: number;
+}
+
+/** Papel, orientação e margens não imprimíveis (mm, já na orientação da página) */
+export interface PageSetup {
+  paper: PaperSize;
+  orientation: Orientation;
+  margins: Edges;
+}
+
+export const printableArea = ({ paper, orientation, margins }: PageSetup): Rect => {
+  const { width, height } = getPageSize(paper, orientation);
+  return {
+    x: margins.left,
+    y: margins.top,
+    width: Math.max(1, width - margins.left - margins.right),
+    height: Math.max(1, height - margins.top - margins.bottom)
+  };
+};
+
+/**
+ * Faixa (mm) reservada em volta da imagem, dentro da área que a impressora alcança,
+ * para marcas de corte, coordenada, setas e mini-mapa. Fica fora da linha de corte.
+ */
+export const INFO_BAND = 6;
+
+// Janela da imagem em cada página: a área imprimível sem a faixa de informações
+export const imageWindow = (page: PageSetup): Rect => {
+  const area = printableArea(page);
+  return {
+    x: area.x + INFO_BAND,
+    y: area.y + INFO_BAND,
+    width: Math.max(1, area.width - INFO_BAND * 2),
+    height: Math.max(1, area.height - INFO_BAND * 2)
+  };
+};
+
+const clampOverlap = (overlap: number, maxWidth: number, maxHeight: number) =>
+  Math.min(Math.max(overlap, 0), Math.min(maxWidth, maxHeight) / 2);
+
+// Comprimento coberto por `count` janelas que avançam `window - overlap` a cada página
+export const coveredLength = (count: number, window: number, overlap: number) =>
+  count * (window - overlap) + overlap;
+
+// Área (mm) que uma grade consegue cobrir com a página informada
+export const gridCapacity = (grid: Pick<GridConfig, 'horizontal' | 'vertical'>, overlap: number, page: PageSetup) => {
+  const { width: maxWidth, height: maxHeight } = imageWindow(page);
+  const clamped = clampOverlap(overlap, maxWidth, maxHeight);
+  return {
+    width: coveredLength(grid.horizontal, maxWidth, clamped),
+    height: coveredLength(grid.vertical, maxHeight, clamped)
+  };
+};
+
+// Dimensões finais do pôster (mm), mantendo a proporção da imagem
+export const resolvePosterSize = (size: PosterSize, imageWidth: number, imageHeight: number) => {
+  const mm = size.value * MM_PER_UNIT[size.unit];
+  return size.dimension === 'width'
+    ? { width: mm, height: mm * imageHeight / imageWidth }
+    : { width: mm * imageWidth / imageHeight, height: mm };
+};
+
+// Menor quantidade de páginas em um eixo para cobrir `length` mm
+export const pagesToCover = (length: number, window: number, overlap: number) =>
+  Math.max(1, Math.ceil((length - overlap) / (window - overlap) - 1e-9));
+
+// Grade necessária para imprimir o pôster no tamanho final informado
+export const gridForPosterSize = (
+  posterWidth: number,
+  posterHeight: number,
+  overlap: number,
+  page: PageSetup
+) => {
+  const { width: maxWidth, height: maxHeight } = imageWindow(page);
+  const clamped = clampOverlap(overlap, maxWidth, maxHeight);
+  return {
+    horizontal: pagesToCover(posterWidth, maxWidth, clamped),
+    vertical: pagesToCover(posterHeight, maxHeight, clamped)
+  };
+};
+
+// Maior grade em que a imagem não passa de `maxMmPerPixel` (ou seja, não cai abaixo de uma resolução)
+export const gridForMaxScale = (
+  maxMmPerPixel: number,
+  imageWidth: number,
+  imageHeight: number,
+  overlap: number,
+  page: PageSetup
+) => {
+  const { width: maxWidth, height: maxHeight } = imageWindow(page);
+  const clamped = clampOverlap(overlap, maxWidth, maxHeight);
+  const pagesWithin = (length: number, window: number) =>
+    Math.max(1, Math.floor((length - clamped) / (window - clamped) + 1e-9));
+  return {
+    horizontal: pagesWithin(imageWidth * maxMmPerPixel, maxWidth),
+    vertical: pagesWithin(imageHeight * maxMmPerPixel, maxHeight)
+  };
+};
+
+/**
+ * Posiciona o pôster inteiro em uma tela virtual, em uma única escala, e recorta
+ * essa tela em janelas do tamanho da área útil da página. Páginas vizinhas
+ * compartilham exatamente `overlap` mm, então as bordas coincidem após o corte.
+ */
+export const computeLayout = (
+  imageWidth: number,
+  imageHeight: number,
+  gridConfig: GridConfig,
+  page: PageSetup,
+  fixedMmPerPixel?: number
+): PosterLayout => {
+  const { width: pageWidth, height: pageHeight } = getPageSize(page.paper, page.orientation);
+  const printable = imageWindow(page);
+
+  const totalCols = gridConfig.horizontal;
+  const totalRows = gridConfig.vertical;
+
+  // A sobreposição nunca pode ocupar mais da metade da área útil
+  const overlap = clampOverlap(gridConfig.overlap, printable.width, printable.height);
+  const stepX = printable.width - overlap;
+  const stepY = printable.height - overlap;
+  const canvasWidth = coveredLength(totalCols, printable.width, overlap);
+  const canvasHeight = coveredLength(totalRows, printable.height, overlap);
+
+  // Com escala fixa (tamanho final) a imagem sai em 1:1; senão ocupa o máximo da grade
+  const mmPerPixel = fixedMmPerPixel ?? Math.min(canvasWidth / imageWidth, canvasHeight / imageHeight);
+  const posterWidth = imageWidth * mmPerPixel;
+  const posterHeight = imageHeight * mmPerPixel;
+
+  // Centralizar o pôster na tela virtual distribui a sobra igualmente nas bordas
+  const offsetX = (canvasWidth - posterWidth) / 2;
+  const offsetY = (canvasHeight - posterHeight) / 2;
+
+  const tiles: TileLayout[] = [];
+
+  for (let row = 0; row < totalRows; row++) {
+    for (let col = 0; col < totalCols; col++) {
+      const windowX = col * stepX;
+      const windowY = row * stepY;
+
+      // Interseção da janela da página com o pôster, em coordenadas da tela virtual
+      const left = Math.max(windowX, offsetX);
+      const top = Math.max(windowY, offsetY);
+      const width = Math.max(0, Math.min(windowX + printable.width, offsetX + posterWidth) - left);
+      const height = Math.max(0, Math.min(windowY + printable.height, offsetY + posterHeight) - top);
+
+      tiles.push({
+        index: tiles.length,
+        col,
+        row,
+        sx: (left - offsetX) / mmPerPixel,
+        sy: (top - offsetY) / mmPerPixel,
+        sw: width / mmPerPixel,
+        sh: height / mmPerPixel,
+        x: printable.x + left - windowX,
+        y: printable.y + top - windowY,
+        width,
+        height,
+        overlap: {
+          top: row > 0 ? overlap : 0,
+          right: col < totalCols - 1 ? overlap : 0,
+          bottom: row < totalRows - 1 ? overlap : 0,
+          left: col > 0 ? overlap : 0
+        }
+      });
+    }
+  }
+
+  return {
+    columns: totalCols,
+    rows: totalRows,
+    tiles,
+    mmPerPixel,
+    orientation: page.orientation,
+    pageWidth,
+    pageHeight,
+    printable,
+    printArea: printableArea(page),
+    posterWidth,
+    posterHeight,
+    posterX: offsetX,
+    posterY: offsetY,
+    canvasWidth,
+    canvasHeight,
+    overlap
+  };
+};
+
+// Linha em letras como em planilhas: A..Z, AA, AB...
+const rowLetter = (row: number): string =>
+  (row >= 26 ? rowLetter(Math.floor(row / 26) - 1) : '') + String.fromCharCode(65 + (row % 26));
+
+// Coordenada legível da página: letra da linha + número da coluna (A1, B2...)
+export const tileCoordinate = (col: number, row: number) => `${rowLetter(row)}${col + 1}`;
+
+// Onde a janela da página começa na tela virtual (mm)
+export const tileOrigin = (layout: PosterLayout, tile: TileLayout) => ({
+  x: tile.col * (layout.printable.width - layout.overlap),
+  y: tile.row * (layout.printable.height - layout.overlap)
+});
+
+// Célula da página no pôster montado, na tela virtual (mm): a janela sem as abas de cola
+export const tileCell = (layout: PosterLayout, tile: TileLayout): Rect => {
+  const { x, y } = tileOrigin(layout, tile);
+  return {
+    x,
+    y,
+    width: layout.printable.width - tile.overlap.right,
+    height: layout.printable.height - tile.overlap.bottom
+  };
+};
+
+const intersect = (a: Rect, b: Rect): Rect | null => {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  const width = Math.min(a.x + a.width, b.x + b.width) - x;
+  const height = Math.min(a.y + a.height, b.y + b.height) - y;
+  return width > 0 && height > 0 ? { x, y, width, height } : null;
+};
+
+export interface OverlapStrip extends Rect {
+  edge: keyof Edges;
+}
+
+// Faixas de sobreposição da página (mm), limitadas à parte que contém imagem
+export const overlapStrips = (tile: TileLayout, printable: Rect): OverlapStrip[] => {
+  const { top, right, bottom, left } = tile.overlap;
+  const image = { x: tile.x, y: tile.y, width: tile.width, height: tile.height };
+  const strips: Array<[keyof Edges, Rect]> = [];
+
+  if (top) strips.push(['top', { ...printable, height: top }]);
+  if (bottom) strips.push(['bottom', { ...printable, y: printable.y + printable.height - bottom, height: bottom }]);
+  if (left) strips.push(['left', { ...printable, width: left }]);
+  if (right) strips.push(['right', { ...printable, x: printable.x + printable.width - right, width: right }]);
+
+  return strips.flatMap(([edge, strip]) => {
+    const rect = intersect(strip, image);
+    return rect ? [{ ...rect, edge }] : [];
+  });
+};
+
+/**
+ * Área que a página ocupa no pôster montado (mm). As faixas da direita e de baixo
+ * ficam por baixo da página vizinha, então a linha de corte fica no início delas.
+ */
+export const trimRect = (tile: TileLayout, printable: Rect): Rect | null =>
+  intersect(
+    {
+      ...printable,
+      width: printable.width - tile.overlap.right,
+      height: printable.height - tile.overlap.bottom
+    },
+    { x: tile.x, y: tile.y, width: tile.width, height: tile.height }
+  );
@@ -0,0 +1,95 @@
+export type PaperFormat = string;
+export type Orientation = 'portrait' | 'landscape';
+/** Escolha do usuário; 'auto' decide por layout qual orientação aproveita melhor o papel */
+export type OrientationSetting = Orientation | 'auto';
+
+export type PaperGroup = 'iso-a' | 'iso-b' | 'iso-c' | 'ansi' | 'photo' | 'roll' | 'custom';
+
+export interface PaperSize {
+  id: PaperFormat;
+  name: string;
+  /** Dimensões em retrato (mm) */
+  width: number;
+  height: number;
+  group: PaperGroup;
+}
+
+export const PAPER_GROUPS: Record<PaperGroup, string> = {
+  'iso-a': 'ISO A',
+  'iso-b': 'ISO B',
+  'iso-c': 'ISO C',
+  ansi: 'ANSI / EUA',
+  photo: 'Fotográfico',
+  roll: 'Rolo / banner',
+  custom: 'Personalizados'
+};
+
+// Séries ISO 216/269, do maior (0) para o menor (10)
+const isoSeries = (prefix: 'A' | 'B' | 'C', sizes: Array<[number, number]>): PaperSize[] =>
+  sizes.map(([width, height], n) => ({
+    id: `${prefix.toLowerCase()}${n}`,
+    name: `${prefix}${n}`,
+    width,
+    height,
+    group: `iso-${prefix.toLowerCase()}` as PaperGroup
+  }));
+
+const CATALOGUE: PaperSize[] = [
+  ...isoSeries('A', [
+    [841, 1189], [594, 841], [420, 594], [297, 420], [210, 297], [148, 210],
+    [105, 148], [74, 105], [52, 74], [37, 52], [26, 37]
+  ]),
+  ...isoSeries('B', [
+    [1000, 1414], [707, 1000], [500, 707], [353, 500], [250, 353], [176, 250],
+    [125, 176], [88, 125], [62, 88], [44, 62], [31, 44]
+  ]),
+  ...isoSeries('C', [
+    [917, 1297], [648, 917], [458, 648], [324, 458], [229, 324], [162, 229],
+    [114, 162], [81, 114], [57, 81], [40, 57], [28, 40]
+  ]),
+  { id: 'letter', name: 'Carta (Letter)', width: 216, height: 279, group: 'ansi' },
+  { id: 'legal', name: 'Ofício (Legal)', width: 216, height: 356, group: 'ansi' },
+  { id: 'tabloid', name: 'Tabloid (ANSI B)', width: 279, height: 432, group: 'ansi' },
+  { id: 'ansi-c', name: 'ANSI C', width: 432, height: 559, group: 'ansi' },
+  { id: 'ansi-d', name: 'ANSI D', width: 559, height: 864, group: 'ansi' },
+  { id: 'ansi-e', name: 'ANSI E', width: 864, height: 1118, group: 'ansi' },
+  { id: 'super-b', name: 'Super B (13×19")', width: 330, height: 483, group: 'photo' }
+];
+
+export const PAPER_FORMATS: Record<PaperFormat, PaperSize> = Object.fromEntries(
+  CATALOGUE.map((paper) => [paper.id, paper])
+);
+
+export const DEFAULT_PAPER_FORMAT: PaperFormat = 'a4';
+
+/** Papel em rolo: largura fixa e faixas de comprimento livre até `maxLength` (mm) */
+export interface RollPaper {
+  width: number;
+  maxLength: number;
+}
+
+export const ROLL_PAPER_ID: PaperFormat = 'roll';
+
+export const DEFAULT_ROLL_PAPER: RollPaper = { width: 610, maxLength: 3000 };
+
+// Página de uma faixa do rolo; sem comprimento definido, usa o máximo
+export const rollPaperSize = (roll: RollPaper, length = roll.maxLength): PaperSize => ({
+  id: ROLL_PAPER_ID,
+  name: `Rolo ${roll.width} mm`,
+  width: Math.min(roll.width, length),
+  height: Math.max(roll.width, length),
+  group: 'roll'
+});
+
+// Procura primeiro no catálogo e depois nos tamanhos criados pelo usuário
+export const findPaper = (id: PaperFormat, customPapers: PaperSize[] = []): PaperSize =>
+  PAPER_FORMATS[id] ?? customPapers.find((paper) => paper.id === id) ?? PAPER_FORMATS[DEFAULT_PAPER_FORMAT];
+
+// Dimensões da página (mm) já considerando a orientação
+export const getPageSize = (paper: PaperSize, orientation: Orientation) => {
+  const short = Math.min(paper.width, paper.height);
+  const long = Math.max(paper.width, paper.height);
+  return orientation === 'portrait'
+    ? { width: short, height: long }
+    : { width: long, height: short };
+};
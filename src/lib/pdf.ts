@@ -0,0 +1,390 @@
+import jsPDF, { GState } from "jspdf";
+import { IDENTITY_CALIBRATION, type PrinterCalibration } from "@/lib/calibration";
+import {
+  overlapStrips,
+  tileCell,
+  tileCoordinate,
+  tileOrigin,
+  trimRect,
+  type PosterLayout,
+  type Rect,
+  type TileLayout
+} from "@/lib/layout";
+
+/** Como as páginas são gravadas: PNG sem perdas, JPEG ou o melhor dos dois para cada página */
+export type TileFormat = 'png' | 'jpeg' | 'auto';
+
+export interface PdfOptions {
+  shadeOverlap: boolean;
+  /** Marcas de corte, linhas tracejadas e cruzes de registro para a montagem */
+  assemblyMarks: boolean;
+  /** Primeira página com o mapa da grade e instruções de montagem */
+  coverPage: boolean;
+  format: TileFormat;
+  /** Qualidade do JPEG, de 0 a 1 */
+  jpegQuality: number;
+}
+
+// JPEG entra no PDF como está; PNG é descompactado e recomprimido pelo jsPDF
+const imageType = (dataUrl: string) => (dataUrl.startsWith('data:image/jpeg') ? 'JPEG' : 'PNG');
+
+const CROP_MARK_LENGTH = 4; // mm
+const CROP_MARK_GAP = 1; // mm
+const REGISTRATION_RADIUS = 2.5; // mm
+
+// Abas de cola: faixas da direita e de baixo, que ficam sob a página vizinha.
+// As da esquerda e do topo aparecem no pôster montado e não recebem nada.
+const glueTabs = (tile: TileLayout, printable: Rect) =>
+  overlapStrips(tile, printable).filter((strip) => strip.edge === 'right' || strip.edge === 'bottom');
+
+const shadeOverlap = (pdf: jsPDF, tile: TileLayout, printable: Rect) => {
+  pdf.saveGraphicsState();
+  pdf.setGState(new GState({ opacity: 0.25 }));
+  pdf.setFillColor(120, 120, 120);
+  for (const strip of glueTabs(tile, printable)) {
+    pdf.rect(strip.x, strip.y, strip.width, strip.height, 'F');
+  }
+  pdf.restoreGraphicsState();
+};
+
+// Cruz com círculo, impressa na aba de cola
+const registrationMark = (pdf: jsPDF, x: number, y: number, radius: number) => {
+  pdf.circle(x, y, radius * 0.6, 'S');
+  pdf.line(x - radius, y, x + radius, y);
+  pdf.line(x, y - radius, x, y + radius);
+};
+
+const drawAssemblyMarks = (pdf: jsPDF, tile: TileLayout, layout: PosterLayout) => {
+  const trim = trimRect(tile, layout.printable);
+  if (!trim) return;
+
+  const left = trim.x;
+  const top = trim.y;
+  const right = trim.x + trim.width;
+  const bottom = trim.y + trim.height;
+
+  pdf.saveGraphicsState();
+  pdf.setDrawColor(0);
+  pdf.setLineWidth(0.2);
+
+  // Marcas de corte nos cantos, apontando para fora da área da página; encurtadas
+  // para não passar do que a impressora alcança
+  const { printArea } = layout;
+  const reach = (from: number, direction: number, start: number, size: number) =>
+    Math.min(CROP_MARK_LENGTH, (direction < 0 ? from - start : start + size - from) - CROP_MARK_GAP);
+
+  for (const [x, y, dx, dy] of [
+    [left, top, -1, -1],
+    [right, top, 1, -1],
+    [left, bottom, -1, 1],
+    [right, bottom, 1, 1]
+  ]) {
+    const horizontal = reach(x, dx, printArea.x, printArea.width);
+    const vertical = reach(y, dy, printArea.y, printArea.height);
+    if (horizontal > 0) pdf.line(x + dx * CROP_MARK_GAP, y, x + dx * (CROP_MARK_GAP + horizontal), y);
+    if (vertical > 0) pdf.line(x, y + dy * CROP_MARK_GAP, x, y + dy * (CROP_MARK_GAP + vertical));
+  }
+
+  // Linhas de corte: esquerda e topo sempre; direita e baixo só na borda do pôster,
+  // porque ali a sobreposição é a aba de cola que fica sob a página vizinha
+  pdf.setLineDashPattern([2, 1.5], 0);
+  pdf.setDrawColor(90);
+  pdf.line(left, top, right, top);
+  pdf.line(left, top, left, bottom);
+  if (!tile.overlap.right) pdf.line(right, top, right, bottom);
+  if (!tile.overlap.bottom) pdf.line(left, bottom, right, bottom);
+  pdf.setLineDashPattern([], 0);
+
+  // Cruzes de registro no meio das abas de cola, a 1/4 e 3/4 do comprimento; ficam
+  // escondidas sob a página vizinha, que está alinhada quando cobre todas elas
+  const radius = Math.min(REGISTRATION_RADIUS, layout.overlap * 0.4);
+  if (radius > 0) {
+    pdf.setDrawColor(0);
+    for (const strip of glueTabs(tile, layout.printable)) {
+      const horizontal = strip.edge === 'top' || strip.edge === 'bottom';
+      for (const t of [0.25, 0.75]) {
+        const x = horizontal ? strip.x + strip.width * t : strip.x + strip.width / 2;
+        const y = horizontal ? strip.y + strip.height / 2 : strip.y + strip.height * t;
+        registrationMark(pdf, x, y, radius);
+      }
+    }
+  }
+
+  pdf.restoreGraphicsState();
+};
+
+const PT_TO_MM = 25.4 / 72;
+const MIN_INFO_BAND = 2; // mm
+const MINIMAP_MAX_WIDTH = 40; // mm
+const MINIMAP_MAX_HEIGHT = 12; // mm
+
+type Direction = 'top' | 'right' | 'bottom' | 'left';
+
+// Triângulo apontando para a borda, seguido do nome da página vizinha
+const edgeArrow = (pdf: jsPDF, x: number, y: number, direction: Direction, label: string) => {
+  const size = 1.4;
+  const tip = {
+    top: [x, y - size, x - size, y + size * 0.6, x + size, y + size * 0.6],
+    bottom: [x, y + size, x - size, y - size * 0.6, x + size, y - size * 0.6],
+    left: [x - size, y, x + size * 0.6, y - size, x + size * 0.6, y + size],
+    right: [x + size, y, x - size * 0.6, y - size, x - size * 0.6, y + size]
+  }[direction];
+  pdf.triangle(tip[0], tip[1], tip[2], tip[3], tip[4], tip[5], 'F');
+
+  if (direction === 'top' || direction === 'bottom') {
+    pdf.text(label, x + size + 1, y, { baseline: 'middle' });
+  } else {
+    // Nas laterais o texto corre na vertical, acima do triângulo
+    pdf.text(label, x, y - size - 1, { baseline: 'middle', angle: 90 });
+  }
+};
+
+// Coordenada, setas para as vizinhas e mini-mapa, na faixa entre a imagem e o limite da impressora
+const drawTileInfo = (pdf: jsPDF, tile: TileLayout, layout: PosterLayout) => {
+  const { printable, printArea, columns, rows, tiles } = layout;
+  const topBand = printable.y - printArea.y;
+  const leftBand = printable.x - printArea.x;
+  const bottomBand = printArea.y + printArea.height - printable.y - printable.height;
+  const rightBand = printArea.x + printArea.width - printable.x - printable.width;
+
+  // Páginas menores que a própria faixa não deixam espaço para as indicações
+  if (Math.min(topBand, leftBand, bottomBand, rightBand) < MIN_INFO_BAND) return;
+
+  const fontSize = Math.max(4, Math.min(7, (Math.min(topBand, leftBand, bottomBand) * 0.6) / PT_TO_MM));
+
+  const centerX = printable.x + printable.width / 2;
+  const centerY = printable.y + printable.height / 2;
+  const bottomY = printable.y + printable.height + bottomBand / 2;
+
+  pdf.saveGraphicsState();
+  pdf.setFontSize(fontSize);
+  pdf.setTextColor(90);
+  pdf.setFillColor(90, 90, 90);
+
+  pdf.text(
+    `${tileCoordinate(tile.col, tile.row)} - página ${tile.index + 1} de ${tiles.length}`,
+    printable.x,
+    bottomY,
+    { baseline: 'middle' }
+  );
+
+  const neighbours: Array<[Direction, number, number, number, number]> = [
+    ['top', tile.col, tile.row - 1, centerX, printArea.y + topBand / 2],
+    ['bottom', tile.col, tile.row + 1, centerX, bottomY],
+    ['left', tile.col - 1, tile.row, printArea.x + leftBand / 2, centerY],
+    ['right', tile.col + 1, tile.row, printable.x + printable.width + rightBand / 2, centerY]
+  ];
+  for (const [direction, col, row, x, y] of neighbours) {
+    if (col < 0 || row < 0 || col >= columns || row >= rows) continue;
+    edgeArrow(pdf, x, y, direction, tileCoordinate(col, row));
+  }
+
+  // Mini-mapa da grade com a página atual destacada, no canto inferior direito
+  let cellHeight = Math.min(bottomBand - 1.5, MINIMAP_MAX_HEIGHT) / rows;
+  let cellWidth = cellHeight * printable.width / printable.height;
+  if (cellWidth * columns > MINIMAP_MAX_WIDTH) {
+    const shrink = MINIMAP_MAX_WIDTH / (cellWidth * columns);
+    cellWidth *= shrink;
+    cellHeight *= shrink;
+  }
+  if (cellHeight > 0) {
+    const mapX = printable.x + printable.width - cellWidth * columns;
+    const mapY = bottomY - cellHeight * rows / 2;
+    pdf.setLineWidth(0.1);
+    pdf.setDrawColor(150);
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < columns; col++) {
+        const current = col === tile.col && row === tile.row;
+        pdf.rect(mapX + col * cellWidth, mapY + row * cellHeight, cellWidth, cellHeight, current ? 'FD' : 'S');
+      }
+    }
+  }
+
+  pdf.restoreGraphicsState();
+};
+
+const COVER_HEADER_HEIGHT = 20; // mm
+const COVER_FOOTER_HEIGHT = 42; // mm
+
+const assemblyInstructions = (layout: PosterLayout, skipped: number) => [
+  'Imprima todas as páginas em tamanho real (100%), sem "ajustar à página".',
+  ...(skipped > 0 ? ['Páginas marcadas "em branco" no mapa não foram impressas: deixe o espaço delas vazio.'] : []),
+  'Recorte cada página pelas linhas tracejadas da esquerda e do topo.',
+  layout.overlap > 0
+    ? 'Monte a partir de A1, colocando cada página sobre a faixa sombreada das vizinhas.'
+    : 'Monte a partir de A1, encostando as bordas das páginas vizinhas.',
+  layout.overlap > 0
+    ? 'Cubra a aba inteira, escondendo as cruzes de registro, e confira a imagem antes de colar.'
+    : 'Confira o alinhamento da imagem antes de colar.',
+  'Siga a ordem dos números: linhas de cima para baixo, colunas da esquerda para a direita.'
+];
+
+// Página de rosto com a miniatura do pôster, a grade numerada e as instruções
+const drawCoverPage = (pdf: jsPDF, layout: PosterLayout, pieces: string[], skipped: ReadonlySet<number>) => {
+  const { printable, canvasWidth, canvasHeight } = layout;
+
+  pdf.setTextColor(30);
+  pdf.setFontSize(16);
+  pdf.text('Mapa de Montagem', printable.x, printable.y + 7);
+  pdf.setFontSize(9);
+  pdf.setTextColor(100);
+  const blankNote = skipped.size > 0 ? ` (${skipped.size} em branco, não impressas)` : '';
+  pdf.text(
+    `${layout.columns} × ${layout.rows} páginas${blankNote} - pôster de ${(layout.posterWidth / 10).toFixed(1)} × ${(layout.posterHeight / 10).toFixed(1)} cm`,
+    printable.x,
+    printable.y + 13
+  );
+
+  // Escala da miniatura: a tela virtual inteira cabe na área entre o cabeçalho e as instruções
+  const areaWidth = printable.width;
+  const areaHeight = printable.height - COVER_HEADER_HEIGHT - COVER_FOOTER_HEIGHT;
+  const k = Math.min(areaWidth / canvasWidth, areaHeight / canvasHeight);
+  const mapX = printable.x + (areaWidth - canvasWidth * k) / 2;
+  const mapY = printable.y + COVER_HEADER_HEIGHT + (areaHeight - canvasHeight * k) / 2;
+
+  // Miniatura montada com os próprios pedaços (o PDF reaproveita as mesmas imagens)
+  for (const tile of layout.tiles) {
+    if (!pieces[tile.index]) continue;
+    const origin = tileOrigin(layout, tile);
+    pdf.addImage(
+      pieces[tile.index],
+      imageType(pieces[tile.index]),
+      mapX + (origin.x + tile.x - printable.x) * k,
+      mapY + (origin.y + tile.y - printable.y) * k,
+      tile.width * k,
+      tile.height * k
+    );
+  }
+
+  pdf.setDrawColor(40);
+  pdf.setLineWidth(0.3);
+  for (const tile of layout.tiles) {
+    const cell = tileCell(layout, tile);
+    const x = mapX + cell.x * k;
+    const y = mapY + cell.y * k;
+    const width = cell.width * k;
+    const height = cell.height * k;
+    const blank = skipped.has(tile.index);
+    if (blank) pdf.setFillColor(225, 225, 225);
+    pdf.rect(x, y, width, height, blank ? 'FD' : 'S');
+
+    // Etiqueta com número e coordenada, em uma caixa branca para ficar legível sobre a imagem
+    const label = `${tile.index + 1} - ${tileCoordinate(tile.col, tile.row)}${blank ? ' (em branco)' : ''}`;
+    const fontSize = Math.max(5, Math.min(12, height * 0.25 / 0.353));
+    pdf.setFontSize(fontSize);
+    const labelWidth = pdf.getTextWidth(label) + 2;
+    const labelHeight = fontSize * 0.353 + 1.5;
+    pdf.setFillColor(255, 255, 255);
+    pdf.rect(x + (width - labelWidth) / 2, y + (height - labelHeight) / 2, labelWidth, labelHeight, 'F');
+    pdf.setTextColor(30);
+    pdf.text(label, x + width / 2, y + height / 2, { align: 'center', baseline: 'middle' });
+  }
+
+  const instructionsY = printable.y + printable.height - COVER_FOOTER_HEIGHT + 6;
+  pdf.setFontSize(10);
+  pdf.setTextColor(30);
+  pdf.text('Como montar', printable.x, instructionsY);
+  pdf.setFontSize(8.5);
+  pdf.setTextColor(80);
+  assemblyInstructions(layout, skipped.size).forEach((line, i) => {
+    pdf.text(`${i + 1}. ${line}`, printable.x, instructionsY + 6 + i * 5, { maxWidth: printable.width });
+  });
+};
+
+// Amplia o conteúdo da página atual a partir do centro para desfazer a escala da impressora
+const compensateScale = (pdf: jsPDF, calibration: PrinterCalibration, pageWidth: number, pageHeight: number) => {
+  const { scaleX, scaleY } = calibration;
+  if (scaleX === 1 && scaleY === 1) return;
+
+  // A matriz é aplicada no espaço nativo do PDF, em pontos
+  const k = pdf.internal.scaleFactor;
+  const centerX = pageWidth * k / 2;
+  const centerY = pageHeight * k / 2;
+  pdf.setCurrentTransformationMatrix(
+    pdf.Matrix(scaleX, 0, 0, scaleY, centerX * (1 - scaleX), centerY * (1 - scaleY))
+  );
+};
+
+// Pôster inteiro em uma página do tamanho da folha do plotter, só com as marcas de corte
+export const buildPlotterPdf = (layout: PosterLayout, piece: string, options: PdfOptions) => {
+  const { pageWidth, pageHeight } = layout;
+  const tile = layout.tiles[0];
+
+  const pdf = new jsPDF({
+    orientation: pageWidth > pageHeight ? 'landscape' : 'portrait',
+    unit: 'mm',
+    format: [pageWidth, pageHeight]
+  });
+
+  pdf.addImage(piece, imageType(piece), tile.x, tile.y, tile.width, tile.height);
+  if (options.assemblyMarks) {
+    drawAssemblyMarks(pdf, tile, layout);
+  }
+
+  return pdf;
+};
+
+/**
+ * Monta o PDF com uma página por pedaço, usando o layout da pré-visualização.
+ * Páginas em `skipped` não são impressas, mas mantêm número e lugar no mapa.
+ */
+export const buildPosterPdf = (
+  layout: PosterLayout,
+  pieces: string[],
+  options: PdfOptions,
+  calibration: PrinterCalibration = IDENTITY_CALIBRATION,
+  onProgress?: (done: number, total: number) => void,
+  skipped: ReadonlySet<number> = new Set()
+) => {
+  const { tiles, pageWidth, pageHeight, printable } = layout;
+
+  const pdf = new jsPDF({
+    orientation: pageWidth > pageHeight ? 'landscape' : 'portrait',
+    unit: 'mm',
+    format: [pageWidth, pageHeight]
+  });
+  compensateScale(pdf, calibration, pageWidth, pageHeight);
+
+  if (options.coverPage) {
+    drawCoverPage(pdf, layout, pieces, skipped);
+  }
+
+  // A primeira página do jsPDF já existe: só a capa ou uma página impressa a ocupam
+  let pageUsed = options.coverPage;
+  for (let i = 0; i < pieces.length; i++) {
+    const tile = tiles[i];
+    if (skipped.has(tile.index)) {
+      onProgress?.(i + 1, pieces.length);
+      continue;
+    }
+
+    if (pageUsed) {
+      pdf.addPage();
+      compensateScale(pdf, calibration, pageWidth, pageHeight);
+    }
+    pageUsed = true;
+
+    if (!pieces[i]) {
+      drawTileInfo(pdf, tile, layout);
+      onProgress?.(i + 1, pieces.length);
+      continue;
+    }
+
+    // Cada página é uma janela da mesma tela virtual: posição e escala vêm prontas do layout
+    pdf.addImage(pieces[i], imageType(pieces[i]), tile.x, tile.y, tile.width, tile.height);
+
+    // Sombrear as faixas de sobreposição para indicar onde colar
+    if (options.shadeOverlap) {
+      shadeOverlap(pdf, tile, printable);
+    }
+
+    if (options.assemblyMarks) {
+      drawAssemblyMarks(pdf, tile, layout);
+    }
+
+    drawTileInfo(pdf, tile, layout);
+    onProgress?.(i + 1, pieces.length);
+  }
+
+  return pdf;
+};
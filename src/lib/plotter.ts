@@ -0,0 +1,79 @@
+import type { PosterLayout, Rect } from "@/lib/layout";
+import { tileCanvasSize } from "@/lib/render";
+import { effectiveDpi } from "@/lib/resolution";
+
+/** Larguras comuns de rolo de plotter (mm): 24", 36", 42", 44", 54" e 60" */
+export const ROLL_WIDTHS = [610, 914, 1067, 1118, 1372, 1524];
+
+// Folga em volta do pôster para as marcas de corte
+export const PLOTTER_MARGIN = 10; // mm
+
+// Maior lado de página que o PDF aceita (14400 pt)
+export const MAX_PDF_SIDE = 14400 * 25.4 / 72; // mm
+
+/** Folha única do plotter: página inteira e onde o pôster fica nela (mm) */
+export interface PlotterSheet {
+  pageWidth: number;
+  pageHeight: number;
+  poster: Rect;
+}
+
+/**
+ * Sem rolo a página tem o tamanho do pôster mais a folga; com rolo a largura é a do
+ * rolo e o pôster fica centralizado. Pode sair mais larga que o rolo: quem chama avisa.
+ */
+export const plotterSheet = (posterWidth: number, posterHeight: number, rollWidth: number | null): PlotterSheet => {
+  const pageWidth = Math.max(rollWidth ?? 0, posterWidth + PLOTTER_MARGIN * 2);
+  const pageHeight = posterHeight + PLOTTER_MARGIN * 2;
+  return {
+    pageWidth,
+    pageHeight,
+    poster: { x: (pageWidth - posterWidth) / 2, y: PLOTTER_MARGIN, width: posterWidth, height: posterHeight }
+  };
+};
+
+export const sheetFitsRoll = (sheet: PlotterSheet, rollWidth: number | null) =>
+  rollWidth === null || sheet.pageWidth <= rollWidth;
+
+export const sheetFitsPdf = (sheet: PlotterSheet) =>
+  sheet.pageWidth <= MAX_PDF_SIDE && sheet.pageHeight <= MAX_PDF_SIDE;
+
+/**
+ * Mesmo pôster (escala e recorte do layout em grade) impresso em uma página só:
+ * um layout de uma célula cuja página é a folha do plotter.
+ */
+export const plotterLayout = (layout: PosterLayout, sheet: PlotterSheet): PosterLayout => ({
+  ...layout,
+  columns: 1,
+  rows: 1,
+  tiles: [{
+    index: 0,
+    col: 0,
+    row: 0,
+    sx: 0,
+    sy: 0,
+    sw: layout.posterWidth / layout.mmPerPixel,
+    sh: layout.posterHeight / layout.mmPerPixel,
+    ...sheet.poster,
+    overlap: { top: 0, right: 0, bottom: 0, left: 0 }
+  }],
+  orientation: sheet.pageWidth > sheet.pageHeight ? 'landscape' : 'portrait',
+  pageWidth: sheet.pageWidth,
+  pageHeight: sheet.pageHeight,
+  printable: sheet.poster,
+  printArea: { x: 0, y: 0, width: sheet.pageWidth, height: sheet.pageHeight },
+  posterX: 0,
+  posterY: 0,
+  canvasWidth: layout.posterWidth,
+  canvasHeight: layout.posterHeight,
+  overlap: 0
+});
+
+/**
+ * Resolução em que a folha sai de fato: o pôster inteiro vira um canvas só, que o
+ * navegador limita em lado e área. Abaixo do DPI do pôster, a imagem foi reduzida.
+ */
+export const plotterDpi = (layout: PosterLayout) => {
+  const [tile] = layout.tiles;
+  return effectiveDpi(tile.width / tileCanvasSize(tile).width);
+};
@@ -0,0 +1,251 @@
+import type { ImageRows, RowDecoder } from "@/lib/band-decoder";
+import { openByteStream, type ByteStream } from "@/lib/byte-stream";
+
+interface PngHeader {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+}
+
+// Amostras por pixel de cada tipo de cor: cinza, RGB, paleta, cinza + alfa, RGBA
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+const BIT_DEPTHS: Record<number, number[]> = {
+  0: [1, 2, 4, 8, 16],
+  2: [8, 16],
+  3: [1, 2, 4, 8],
+  4: [8, 16],
+  6: [8, 16]
+};
+
+// Pixels por pedaço entregue e bytes comprimidos lidos por vez
+const CHUNK_PIXELS = 2 ** 18;
+const IDAT_READ = 2 ** 16;
+
+const readUint32 = (bytes: Uint8Array, at: number) =>
+  ((bytes[at] << 24) | (bytes[at + 1] << 16) | (bytes[at + 2] << 8) | bytes[at + 3]) >>> 0;
+
+const chunkType = (bytes: Uint8Array, at: number) => String.fromCharCode(...bytes.subarray(at, at + 4));
+
+// Cabeçalho do próximo chunk; `pos` fica no início dos dados
+const nextChunk = async (stream: ByteStream) => {
+  if (await stream.fill(8) < 8) throw new Error('PNG truncado');
+  const length = readUint32(stream.bytes, stream.pos);
+  const type = chunkType(stream.bytes, stream.pos + 4);
+  stream.pos += 8;
+  return { length, type };
+};
+
+// Dados do chunk atual, já pulando o CRC
+const chunkData = async (stream: ByteStream, length: number) => {
+  if (await stream.fill(length + 4) < length + 4) throw new Error('PNG truncado');
+  const data = stream.bytes.slice(stream.pos, stream.pos + length);
+  stream.pos += length + 4;
+  return data;
+};
+
+// Desfaz o filtro da linha (PNG 1.2, seção 6) usando a linha anterior já decodificada
+const unfilter = (filter: number, row: Uint8Array, previous: Uint8Array, bpp: number) => {
+  const length = row.length;
+  if (filter === 1) {
+    for (let i = bpp; i < length; i++) row[i] += row[i - bpp];
+  } else if (filter === 2) {
+    for (let i = 0; i < length; i++) row[i] += previous[i];
+  } else if (filter === 3) {
+    for (let i = 0; i < length; i++) row[i] += ((i >= bpp ? row[i - bpp] : 0) + previous[i]) >> 1;
+  } else if (filter === 4) {
+    for (let i = 0; i < length; i++) {
+      const a = i >= bpp ? row[i - bpp] : 0;
+      const b = previous[i];
+      const c = i >= bpp ? previous[i - bpp] : 0;
+      const p = a + b - c;
+      const pa = Math.abs(p - a);
+      const pb = Math.abs(p - b);
+      const pc = Math.abs(p - c);
+      row[i] += pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+    }
+  } else if (filter !== 0) {
+    throw new Error('PNG com filtro de linha inválido');
+  }
+};
+
+// Converte uma linha sem filtro para RGBA de 8 bits, com paleta e transparência (tRNS)
+const rowConverter = ({ width, bitDepth, colorType }: PngHeader, palette: Uint8Array, transparency: Uint8Array | null) => {
+  const max = (1 << bitDepth) - 1;
+  const sample = bitDepth === 8
+    ? (row: Uint8Array, i: number) => row[i]
+    : bitDepth === 16
+      ? (row: Uint8Array, i: number) => (row[i * 2] << 8) | row[i * 2 + 1]
+      : (row: Uint8Array, i: number) => (row[(i * bitDepth) >> 3] >> (8 - bitDepth - ((i * bitDepth) & 7))) & max;
+  const level = bitDepth === 8
+    ? (value: number) => value
+    : bitDepth === 16
+      ? (value: number) => value >> 8
+      : (value: number) => Math.round(value * 255 / max);
+  // Valor de cinza/RGB que o tRNS marca como transparente; -1 se não houver
+  const key = (channel: number) =>
+    transparency && transparency.length >= channel * 2 + 2 ? (transparency[channel * 2] << 8) | transparency[channel * 2 + 1] : -1;
+
+  if (colorType === 0) {
+    const gray = key(0);
+    return (row: Uint8Array, out: Uint8ClampedArray, offset: number) => {
+      for (let x = 0, o = offset; x < width; x++, o += 4) {
+        const value = sample(row, x);
+        out[o] = out[o + 1] = out[o + 2] = level(value);
+        out[o + 3] = value === gray ? 0 : 255;
+      }
+    };
+  }
+  if (colorType === 2) {
+    const [red, green, blue] = [key(0), key(1), key(2)];
+    return (row: Uint8Array, out: Uint8ClampedArray, offset: number) => {
+      for (let x = 0, o = offset; x < width; x++, o += 4) {
+        const r = sample(row, x * 3);
+        const g = sample(row, x * 3 + 1);
+        const b = sample(row, x * 3 + 2);
+        out[o] = level(r);
+        out[o + 1] = level(g);
+        out[o + 2] = level(b);
+        out[o + 3] = r === red && g === green && b === blue ? 0 : 255;
+      }
+    };
+  }
+  if (colorType === 3) {
+    return (row: Uint8Array, out: Uint8ClampedArray, offset: number) => {
+      for (let x = 0, o = offset; x < width; x++, o += 4) {
+        const index = sample(row, x);
+        out[o] = palette[index * 3];
+        out[o + 1] = palette[index * 3 + 1];
+        out[o + 2] = palette[index * 3 + 2];
+        out[o + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+      }
+    };
+  }
+  if (colorType === 4) {
+    return (row: Uint8Array, out: Uint8ClampedArray, offset: number) => {
+      for (let x = 0, o = offset; x < width; x++, o += 4) {
+        out[o] = out[o + 1] = out[o + 2] = level(sample(row, x * 2));
+        out[o + 3] = level(sample(row, x * 2 + 1));
+      }
+    };
+  }
+  return (row: Uint8Array, out: Uint8ClampedArray, offset: number) => {
+    for (let x = 0, o = offset; x < width; x++, o += 4) {
+      out[o] = level(sample(row, x * 4));
+      out[o + 1] = level(sample(row, x * 4 + 1));
+      out[o + 2] = level(sample(row, x * 4 + 2));
+      out[o + 3] = level(sample(row, x * 4 + 3));
+    }
+  };
+};
+
+async function* pngRows(image: Blob, header: PngHeader, from: number, to: number): AsyncGenerator<ImageRows> {
+  const { width, bitDepth, colorType } = header;
+  const stream = openByteStream(image);
+  await stream.fill(8);
+  stream.pos = 8;
+
+  // Chunks antes dos dados: só paleta e transparência interessam
+  let palette = new Uint8Array(0);
+  let transparency: Uint8Array | null = null;
+  let chunk = await nextChunk(stream);
+  while (chunk.type !== 'IDAT') {
+    if (chunk.type === 'IEND') throw new Error('PNG sem dados de imagem');
+    const data = await chunkData(stream, chunk.length);
+    if (chunk.type === 'PLTE') palette = data;
+    else if (chunk.type === 'tRNS') transparency = data;
+    chunk = await nextChunk(stream);
+  }
+
+  // Os IDAT seguidos formam um só fluxo zlib, descomprimido aos poucos pelo navegador
+  let remaining = chunk.length;
+  const compressed = new ReadableStream<Uint8Array>({
+    pull: async (controller) => {
+      while (remaining === 0) {
+        await stream.fill(12);
+        stream.pos += 4;
+        const next = await nextChunk(stream);
+        if (next.type !== 'IDAT') {
+          controller.close();
+          return;
+        }
+        remaining = next.length;
+      }
+      const available = Math.min(remaining, await stream.fill(Math.min(remaining, IDAT_READ)));
+      if (available === 0) throw new Error('PNG truncado');
+      controller.enqueue(stream.bytes.subarray(stream.pos, stream.pos + available));
+      stream.pos += available;
+      remaining -= available;
+    }
+  });
+  const inflated = compressed.pipeThrough(new DecompressionStream('deflate')).getReader();
+
+  const rowBytes = Math.ceil(width * CHANNELS[colorType] * bitDepth / 8);
+  const bpp = Math.max(1, (CHANNELS[colorType] * bitDepth) >> 3);
+  const convert = rowConverter(header, palette, transparency);
+  const chunkRows = Math.max(1, Math.floor(CHUNK_PIXELS / width));
+  let previous = new Uint8Array(rowBytes);
+  let row = new Uint8Array(rowBytes);
+  let filter = -1;
+  let filled = 0;
+  let y = 0;
+  let pixels = new Uint8ClampedArray(Math.min(chunkRows, to - from) * width * 4);
+  let start = from;
+
+  try {
+    while (y < to) {
+      const { value, done } = await inflated.read();
+      if (done) throw new Error('PNG truncado');
+
+      for (let i = 0; i < value.length && y < to;) {
+        // Cada linha começa com o byte do filtro
+        if (filter < 0) {
+          filter = value[i++];
+          continue;
+        }
+        const count = Math.min(rowBytes - filled, value.length - i);
+        row.set(value.subarray(i, i + count), filled);
+        filled += count;
+        i += count;
+        if (filled < rowBytes) continue;
+
+        unfilter(filter, row, previous, bpp);
+        if (y >= from) convert(row, pixels, (y - start) * width * 4);
+        [previous, row] = [row, previous];
+        filter = -1;
+        filled = 0;
+        y++;
+
+        if (y > from && (y - start === chunkRows || y === to)) {
+          yield { y: start, height: y - start, pixels };
+          start = y;
+          pixels = new Uint8ClampedArray(Math.min(chunkRows, to - y) * width * 4);
+        }
+      }
+    }
+  } finally {
+    await inflated.cancel().catch(() => undefined);
+    await stream.close();
+  }
+}
+
+export const openPngDecoder = async (image: Blob): Promise<RowDecoder | null> => {
+  const bytes = new Uint8Array(await image.slice(0, 33).arrayBuffer());
+  if (bytes.length < 33 || chunkType(bytes, 12) !== 'IHDR') return null;
+
+  const header: PngHeader = {
+    width: readUint32(bytes, 16),
+    height: readUint32(bytes, 20),
+    bitDepth: bytes[24],
+    colorType: bytes[25]
+  };
+  // Entrelaçado (Adam7) espalha cada linha por sete passadas: não dá para ler por faixas
+  const interlaced = bytes[28] !== 0;
+  if (interlaced || !BIT_DEPTHS[header.colorType]?.includes(header.bitDepth)) return null;
+
+  return {
+    width: header.width,
+    height: header.height,
+    rows: (from, to) => pngRows(image, header, Math.max(0, from), Math.min(header.height, to))
+  };
+};
@@ -0,0 +1,30 @@
+import type { Edges } from "@/lib/layout";
+import type { Orientation } from "@/lib/paper";
+
+export interface PrinterProfile {
+  id: string;
+  name: string;
+  /** Bordas que a impressora não alcança (mm), com o papel em retrato */
+  margins: Edges;
+  custom?: boolean;
+}
+
+export const PRINTER_PROFILES: PrinterProfile[] = [
+  { id: 'default', name: 'Genérica (5 mm)', margins: { top: 5, right: 5, bottom: 5, left: 5 } },
+  { id: 'laser', name: 'Laser (4,2 mm)', margins: { top: 4.2, right: 4.2, bottom: 4.2, left: 4.2 } },
+  { id: 'inkjet', name: 'Jato de tinta (base 12 mm)', margins: { top: 3, right: 3.4, bottom: 12, left: 3.4 } },
+  { id: 'borderless', name: 'Sem bordas', margins: { top: 0, right: 0, bottom: 0, left: 0 } }
+];
+
+export const DEFAULT_PRINTER_PROFILE = 'default';
+
+export const findPrinterProfile = (id: string, customProfiles: PrinterProfile[] = []): PrinterProfile =>
+  PRINTER_PROFILES.find((profile) => profile.id === id) ??
+  customProfiles.find((profile) => profile.id === id) ??
+  PRINTER_PROFILES[0];
+
+// Em paisagem a folha é girada 90° no sentido horário: a borda esquerda do papel vira o topo
+export const orientMargins = (margins: Edges, orientation: Orientation): Edges =>
+  orientation === 'portrait'
+    ? margins
+    : { top: margins.left, right: margins.top, bottom: margins.right, left: margins.bottom };
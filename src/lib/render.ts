@@ -0,0 +1,262 @@
+import type { PrinterCalibration } from "@/lib/calibration";
+import type { PosterLayout, Rect, TileLayout } from "@/lib/layout";
+import type { PaperSize } from "@/lib/paper";
+import type { PdfOptions, TileFormat } from "@/lib/pdf";
+import type { ImageTransform } from "@/lib/transform";
+
+/** Fatiar a imagem nas páginas do layout */
+export interface SliceJob {
+  image: Blob;
+  /** Dimensões da imagem decodificada, antes da rotação */
+  imageWidth: number;
+  imageHeight: number;
+  /** Como o navegador deve tratar o EXIF ao decodificar, igual ao que a tela mostra */
+  imageOrientation: ImageOrientation;
+  transform: ImageTransform;
+  /** Recorte (px) na imagem já girada */
+  source: Rect;
+  layout: PosterLayout;
+  /** Lado máximo (px) de cada pedaço; sem limite os pedaços saem na resolução de impressão */
+  maxTileSide?: number;
+}
+
+/** Fatiar em resolução total e montar o PDF, sem depender da pré-visualização */
+export interface PdfJob extends Omit<SliceJob, 'maxTileSide'> {
+  options: PdfOptions;
+  calibration: PrinterCalibration;
+  /** Layout de uma página só (plotter): sem capa, grade nem informações de montagem */
+  singleSheet?: boolean;
+  /** Índices das páginas em branco que ficam de fora, as mesmas apagadas na pré-visualização */
+  skipped: number[];
+}
+
+/** Formato dos arquivos avulsos de cada página */
+export type TileImageFormat = 'png' | 'jpeg' | 'webp';
+
+/** Fatiar em resolução total e empacotar as páginas como imagens em um ZIP */
+export interface ZipJob extends Omit<SliceJob, 'maxTileSide'> {
+  format: TileImageFormat;
+  quality: number;
+  paper: PaperSize;
+  skipped: number[];
+}
+
+/** Medir quanto cada página ocupa já codificada, a partir das miniaturas da pré-visualização */
+export interface EstimateJob {
+  layout: PosterLayout;
+  thumbnails: string[];
+  format: TileFormat;
+  quality: number;
+}
+
+export type RenderStage = 'slice' | 'pdf';
+
+export type RenderRequest =
+  | ({ type: 'slice'; id: number } & SliceJob)
+  | ({ type: 'pdf'; id: number } & PdfJob)
+  | ({ type: 'zip'; id: number } & ZipJob)
+  | ({ type: 'estimate'; id: number } & EstimateJob);
+
+export type RenderResponse =
+  | { type: 'progress'; id: number; stage: RenderStage; done: number; total: number }
+  | { type: 'sliced'; id: number; pieces: string[]; coverage: number[] }
+  | { type: 'pdf'; id: number; pdf: Blob }
+  | { type: 'zip'; id: number; zip: Blob }
+  | { type: 'estimated'; id: number; bytes: number[] }
+  | { type: 'error'; id: number; message: string };
+
+// Páginas que caem só na sobra em branco da tela virtual não têm imagem
+export const tileHasImage = (tile: TileLayout) => tile.width > 0 && tile.height > 0;
+
+// Limites seguros de canvas nos navegadores; acima disso o canvas sai em branco
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 2 ** 26;
+
+/**
+ * Até esse tamanho (px) o navegador decodifica a imagem uma vez e ela fica em memória
+ * durante o fatiamento. Acima, PNG não entrelaçado e JPEG baseline são lidos por faixas
+ * (band-decoder): em memória ficam só a faixa e as páginas montadas naquela passada.
+ * Os demais formatos continuam com o navegador e podem não caber.
+ */
+export const FULL_DECODE_LIMIT = 2 ** 26;
+
+// Canvas da página: 1 px por pixel da imagem, reduzido só se passar de `maxSide` ou dos limites do navegador
+export const tileCanvasSize = (tile: TileLayout, maxSide = MAX_CANVAS_SIDE) => {
+  const side = Math.min(maxSide, MAX_CANVAS_SIDE);
+  const scale = Math.min(
+    1,
+    side / tile.sw,
+    side / tile.sh,
+    Math.sqrt(MAX_CANVAS_AREA / (tile.sw * tile.sh))
+  );
+  return {
+    width: Math.max(1, Math.round(tile.sw * scale)),
+    height: Math.max(1, Math.round(tile.sh * scale))
+  };
+};
+
+// Região da imagem original (px inteiros, antes da rotação) que a página usa: as linhas que as faixas precisam cobrir
+export const tileRegion = (
+  tile: TileLayout,
+  source: Rect,
+  orient: DOMMatrix,
+  imageWidth: number,
+  imageHeight: number
+): Rect => {
+  const inverse = orient.inverse();
+  const a = inverse.transformPoint(new DOMPoint(source.x + tile.sx, source.y + tile.sy));
+  const b = inverse.transformPoint(new DOMPoint(source.x + tile.sx + tile.sw, source.y + tile.sy + tile.sh));
+  const left = Math.max(0, Math.floor(Math.min(a.x, b.x)));
+  const top = Math.max(0, Math.floor(Math.min(a.y, b.y)));
+  const right = Math.min(imageWidth, Math.ceil(Math.max(a.x, b.x)));
+  const bottom = Math.min(imageHeight, Math.ceil(Math.max(a.y, b.y)));
+  return { x: left, y: top, width: Math.max(1, right - left), height: Math.max(1, bottom - top) };
+};
+
+/**
+ * Desenha no contexto o pedaço da imagem girada que cai na página. As coordenadas
+ * do layout são relativas ao recorte; `orient` leva a imagem original para a girada.
+ * `image` pode ser só a região `region` da imagem original (uma faixa, por exemplo):
+ * o canvas não é limpo, então várias faixas compõem a mesma página.
+ */
+export const drawTile = (
+  ctx: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D,
+  image: ImageBitmap,
+  region: Rect,
+  tile: TileLayout,
+  source: Rect,
+  orient: DOMMatrix
+) => {
+  const { width, height } = ctx.canvas;
+  // Redimensionar o canvas volta o contexto ao padrão; sem isso traços finos somem nas miniaturas
+  ctx.imageSmoothingQuality = 'high';
+  ctx.setTransform(
+    new DOMMatrix()
+      .scale(width / tile.sw, height / tile.sh)
+      .translate(-(source.x + tile.sx), -(source.y + tile.sy))
+      .multiply(orient)
+      .translate(region.x, region.y)
+      .scale(region.width / image.width, region.height / image.height)
+  );
+  ctx.drawImage(image, 0, 0);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+};
+
+// Grade de blocos em que a página é medida; um bloco tem tinta se qualquer pixel dele tiver
+const INK_GRID = 64;
+// Abaixo disso o pixel é transparente; a partir de PAPER_WHITE em todos os canais é papel
+const INK_ALPHA = 16;
+const PAPER_WHITE = 250;
+
+/**
+ * Fração dos blocos da página que recebem tinta (pixels nem transparentes nem quase
+ * brancos). Contar por bloco, e não pela média, não deixa traços finos sumirem. Lê os
+ * pixels do próprio canvas, então só é usada nas miniaturas da pré-visualização: as
+ * exportações recebem de lá as páginas puladas, sem medir de novo.
+ */
+export const inkCoverage = (canvas: OffscreenCanvas) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return 1;
+
+  const { width, height } = canvas;
+  const data = ctx.getImageData(0, 0, width, height).data;
+  const columns = Math.min(INK_GRID, width);
+  const rows = Math.min(INK_GRID, height);
+  const inked = new Uint8Array(columns * rows);
+
+  for (let y = 0; y < height; y++) {
+    const block = Math.floor(y * rows / height) * columns;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (data[i + 3] >= INK_ALPHA && Math.min(data[i], data[i + 1], data[i + 2]) < PAPER_WHITE) {
+        inked[block + Math.floor(x * columns / width)] = 1;
+      }
+    }
+  }
+  return inked.reduce((sum, value) => sum + value, 0) / inked.length;
+};
+
+// Índices das páginas que não chegam à tolerância de tinta; sem tolerância nenhuma é pulada
+export const blankTiles = (coverage: number[], tolerance: number | null) =>
+  new Set(tolerance === null ? [] : coverage.flatMap((ink, index) => (ink <= tolerance ? [index] : [])));
+
+const TILE_MIME = { png: 'image/png', jpeg: 'image/jpeg', webp: 'image/webp' } as const;
+
+// Amostra (lado, px) usada para decidir o formato automático
+const FORMAT_SAMPLE_SIDE = 64;
+const MAX_FLAT_COLORS = 256;
+
+/**
+ * Formato automático: PNG quando há transparência ou poucas cores (desenhos, texto),
+ * onde o JPEG borra as bordas e nem fica menor; JPEG para fotos.
+ */
+export const chooseTileFormat = (canvas: OffscreenCanvas): 'png' | 'jpeg' => {
+  const sample = new OffscreenCanvas(FORMAT_SAMPLE_SIDE, FORMAT_SAMPLE_SIDE);
+  const ctx = sample.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return 'png';
+
+  // Sem suavização a amostra só tem cores que existem na página
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(canvas, 0, 0, FORMAT_SAMPLE_SIDE, FORMAT_SAMPLE_SIDE);
+  const pixels = new Uint32Array(ctx.getImageData(0, 0, FORMAT_SAMPLE_SIDE, FORMAT_SAMPLE_SIDE).data.buffer);
+
+  const colors = new Set<number>();
+  for (const pixel of pixels) {
+    if (pixel >>> 24 !== 0xff) return 'png';
+    colors.add(pixel);
+  }
+  return colors.size <= MAX_FLAT_COLORS ? 'png' : 'jpeg';
+};
+
+export const encodeTile = (canvas: OffscreenCanvas, format: TileFormat | TileImageFormat, quality: number) => {
+  const type = format === 'auto' ? chooseTileFormat(canvas) : format;
+  if (type === 'jpeg') {
+    // JPEG não tem transparência: o que for transparente vira papel branco, não preto
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      ctx.globalCompositeOperation = 'destination-over';
+      ctx.fillStyle = '#fff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.globalCompositeOperation = 'source-over';
+    }
+  }
+  return canvas.convertToBlob({ type: TILE_MIME[type], quality });
+};
+
+// Cabeçalhos, textos e marcas de cada página do PDF, aproximado
+const PDF_PAGE_OVERHEAD = 4 * 1024;
+
+/**
+ * Bytes de cada página já codificada: a miniatura é codificada no formato escolhido e
+ * o tamanho é extrapolado pela quantidade de pixels da página impressa (0 sem imagem).
+ * Roda no worker; só muda com o formato e a qualidade.
+ */
+export const encodedTileSizes = async ({ layout, thumbnails, format, quality }: EstimateJob) => {
+  const bytes: number[] = [];
+
+  for (const tile of layout.tiles) {
+    const thumbnail = thumbnails[tile.index];
+    if (!thumbnail) {
+      bytes.push(0);
+      continue;
+    }
+
+    const bitmap = await createImageBitmap(await (await fetch(thumbnail)).blob());
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    const encoded = await encodeTile(canvas, format, quality);
+    const full = tileCanvasSize(tile);
+    bytes.push(encoded.size * (full.width * full.height) / (canvas.width * canvas.height));
+  }
+
+  return bytes;
+};
+
+// Tamanho estimado do PDF: soma das páginas impressas, sem codificar nada de novo
+export const estimatePdfSize = (tileBytes: number[], coverPage: boolean, skipped: ReadonlySet<number>) =>
+  tileBytes.reduce(
+    (total, bytes, index) => (skipped.has(index) ? total : total + bytes + PDF_PAGE_OVERHEAD),
+    coverPage ? PDF_PAGE_OVERHEAD : 0
+  );
@@ -0,0 +1,31 @@
+import { gridForMaxScale, type PageSetup } from "@/lib/layout";
+
+const MM_PER_INCH = 25.4;
+
+/** Resoluções (DPI) abaixo das quais a impressão começa a perder qualidade */
+export interface DpiThresholds {
+  warning: number;
+  critical: number;
+}
+
+export const DEFAULT_DPI_THRESHOLDS: DpiThresholds = { warning: 150, critical: 72 };
+
+export type DpiLevel = 'good' | 'warning' | 'critical';
+
+// Pixels da imagem por polegada de papel impresso
+export const effectiveDpi = (mmPerPixel: number) => MM_PER_INCH / mmPerPixel;
+
+export const dpiLevel = (dpi: number, thresholds: DpiThresholds): DpiLevel => {
+  if (dpi < thresholds.critical) return 'critical';
+  if (dpi < thresholds.warning) return 'warning';
+  return 'good';
+};
+
+// Maior grade que mantém a imagem em pelo menos `dpi`
+export const maxGridForDpi = (
+  dpi: number,
+  imageWidth: number,
+  imageHeight: number,
+  overlap: number,
+  page: PageSetup
+) => gridForMaxScale(MM_PER_INCH / dpi, imageWidth, imageHeight, overlap, page);
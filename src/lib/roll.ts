@@ -0,0 +1,80 @@
+import { INFO_BAND, coveredLength, pagesToCover, type Edges, type GridConfig, type PageSetup } from "@/lib/layout";
+import { rollPaperSize, type OrientationSetting, type RollPaper } from "@/lib/paper";
+import { orientMargins } from "@/lib/printers";
+
+/** Faixas verticais correm de cima para baixo; horizontais, da esquerda para a direita */
+export type StripDirection = 'vertical' | 'horizontal';
+
+// Retrato = faixas verticais; em "auto" as faixas acompanham o lado maior da imagem
+export const stripDirection = (setting: OrientationSetting, imageWidth: number, imageHeight: number): StripDirection => {
+  if (setting === 'portrait') return 'vertical';
+  if (setting === 'landscape') return 'horizontal';
+  return imageHeight >= imageWidth ? 'vertical' : 'horizontal';
+};
+
+export interface RollPlan {
+  direction: StripDirection;
+  page: PageSetup;
+  grid: GridConfig;
+  mmPerPixel: number;
+}
+
+/**
+ * Planeja o pôster em faixas do rolo. No sentido da largura do rolo o pôster é
+ * dividido em `strips` faixas (ou nas necessárias para o tamanho final); no
+ * comprimento, faixas maiores que o máximo viram partes iguais. A página é
+ * cortada no comprimento exato de cada parte, então o layout em grade de sempre
+ * monta as faixas, com sobreposição e numeração, sem sobrar rolo em branco.
+ */
+export const planRoll = (
+  imageWidth: number,
+  imageHeight: number,
+  roll: RollPaper,
+  direction: StripDirection,
+  strips: number,
+  overlap: number,
+  printerMargins: Edges,
+  target: { width: number; height: number } | null
+): RollPlan => {
+  const vertical = direction === 'vertical';
+
+  // Faixas horizontais saem giradas em relação ao sentido em que o rolo é puxado
+  const margins = orientMargins(printerMargins, vertical ? 'portrait' : 'landscape');
+  // O que fica fora da imagem em cada sentido: margens da impressora e a faixa de informações
+  const acrossMargins = (vertical ? margins.left + margins.right : margins.top + margins.bottom) + INFO_BAND * 2;
+  const alongMargins = (vertical ? margins.top + margins.bottom : margins.left + margins.right) + INFO_BAND * 2;
+
+  const across = Math.max(1, roll.width - acrossMargins);
+  const maxAlong = Math.max(1, roll.maxLength - alongMargins);
+  const clamped = Math.min(Math.max(overlap, 0), Math.min(across, maxAlong) / 2);
+
+  const imageAcross = vertical ? imageWidth : imageHeight;
+  const imageAlong = vertical ? imageHeight : imageWidth;
+  const targetAcross = target ? (vertical ? target.width : target.height) : null;
+
+  // Sem tamanho final o pôster ocupa toda a largura das faixas escolhidas
+  const count = targetAcross ? pagesToCover(targetAcross, across, clamped) : Math.max(1, strips);
+  const mmPerPixel = (targetAcross ?? coveredLength(count, across, clamped)) / imageAcross;
+
+  // Partes iguais que, somadas com as sobreposições, dão exatamente o comprimento do pôster
+  const posterAlong = imageAlong * mmPerPixel;
+  const parts = pagesToCover(posterAlong, maxAlong, clamped);
+  const along = Math.max(1, clamped * 2, (posterAlong - clamped) / parts + clamped);
+
+  const pageLength = along + alongMargins;
+  const pageWidth = vertical ? roll.width : pageLength;
+  const pageHeight = vertical ? pageLength : roll.width;
+
+  return {
+    direction,
+    page: {
+      paper: rollPaperSize(roll, pageLength),
+      orientation: pageWidth > pageHeight ? 'landscape' : 'portrait',
+      margins
+    },
+    grid: vertical
+      ? { horizontal: count, vertical: parts, overlap }
+      : { horizontal: parts, vertical: count, overlap },
+    mmPerPixel
+  };
+};
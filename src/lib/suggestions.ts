@@ -0,0 +1,190 @@
+import {
+  computeLayout,
+  gridCapacity,
+  gridForMaxScale,
+  gridForPosterSize,
+  type Edges,
+  type PageSetup
+} from "@/lib/layout";
+import { getPageSize, type Orientation, type PaperSize } from "@/lib/paper";
+import { orientMargins } from "@/lib/printers";
+import { effectiveDpi } from "@/lib/resolution";
+
+/** O que o layout automático deve respeitar: um tamanho final ou uma resolução mínima */
+export type LayoutGoal =
+  | { kind: 'size'; width: number; height: number }
+  | { kind: 'dpi'; minDpi: number };
+
+export interface LayoutSuggestion {
+  orientation: Orientation;
+  horizontal: number;
+  vertical: number;
+  /** 'fit' amplia a imagem para ocupar a grade; 'fixed' imprime no tamanho calculado */
+  scale: 'fit' | 'fixed';
+  mmPerPixel: number;
+  posterWidth: number;
+  posterHeight: number;
+  pages: number;
+  /** Fração do papel (folhas inteiras) que não recebe imagem */
+  waste: number;
+  dpi: number;
+}
+
+const MAX_PAGES_PER_AXIS = 20;
+const ORIENTATIONS: Orientation[] = ['portrait', 'landscape'];
+
+export interface SuggestionInput {
+  imageWidth: number;
+  imageHeight: number;
+  paper: PaperSize;
+  /** Margens da impressora com o papel em retrato */
+  margins: Edges;
+  overlap: number;
+}
+
+const describe = (
+  input: SuggestionInput,
+  page: PageSetup,
+  grid: { horizontal: number; vertical: number },
+  scale: LayoutSuggestion['scale'],
+  fixedMmPerPixel?: number
+): LayoutSuggestion => {
+  const layout = computeLayout(
+    input.imageWidth,
+    input.imageHeight,
+    { ...grid, overlap: input.overlap },
+    page,
+    scale === 'fixed' ? fixedMmPerPixel : undefined
+  );
+  const sheet = getPageSize(page.paper, page.orientation);
+  const paperArea = layout.tiles.length * sheet.width * sheet.height;
+
+  return {
+    orientation: page.orientation,
+    horizontal: grid.horizontal,
+    vertical: grid.vertical,
+    scale,
+    mmPerPixel: layout.mmPerPixel,
+    posterWidth: layout.posterWidth,
+    posterHeight: layout.posterHeight,
+    pages: layout.tiles.length,
+    waste: Math.max(0, 1 - layout.posterWidth * layout.posterHeight / paperArea),
+    dpi: effectiveDpi(layout.mmPerPixel)
+  };
+};
+
+// Uma coluna, uma linha ou ambas além da grade mínima
+const LARGER_GRIDS: Array<[number, number]> = [[1, 0], [0, 1], [1, 1]];
+const MIN_GROWTH = 1e-9;
+
+// Tamanho fixo: a menor grade no tamanho pedido; como alternativas, ela e as grades
+// logo acima com a imagem ampliada para ocupar as folhas
+const sizeCandidates = (input: SuggestionInput, page: PageSetup, width: number, height: number) => {
+  const grid = gridForPosterSize(width, height, input.overlap, page);
+  const exact = describe(input, page, grid, 'fixed', width / input.imageWidth);
+  const fit = describe(input, page, grid, 'fit');
+  const larger = LARGER_GRIDS
+    .map(([columns, rows]) => ({ horizontal: grid.horizontal + columns, vertical: grid.vertical + rows }))
+    .filter((next) => next.horizontal <= MAX_PAGES_PER_AXIS && next.vertical <= MAX_PAGES_PER_AXIS)
+    .map((next) => describe(input, page, next, 'fit'));
+
+  // Uma coluna a mais não amplia o pôster quando a altura é que limita (e vice-versa)
+  return [
+    exact,
+    ...(fit.mmPerPixel > exact.mmPerPixel + MIN_GROWTH ? [fit] : []),
+    ...larger.filter((candidate) => candidate.mmPerPixel > fit.mmPerPixel + MIN_GROWTH)
+  ];
+};
+
+// Resolução mínima: todas as grades "justas" (sem linhas ou colunas vazias) até o limite de DPI
+const dpiCandidates = (input: SuggestionInput, page: PageSetup, minDpi: number) => {
+  const maxMmPerPixel = 25.4 / minDpi;
+  const limit = gridForMaxScale(maxMmPerPixel, input.imageWidth, input.imageHeight, input.overlap, page);
+  const candidates: LayoutSuggestion[] = [];
+
+  const addForScale = (mmPerPixel: number) => {
+    const scale = Math.min(mmPerPixel, maxMmPerPixel);
+    const grid = gridForPosterSize(
+      input.imageWidth * scale,
+      input.imageHeight * scale,
+      input.overlap,
+      page
+    );
+    const capacity = gridCapacity(grid, input.overlap, page);
+    const fitScale = Math.min(capacity.width / input.imageWidth, capacity.height / input.imageHeight);
+    candidates.push(
+      fitScale <= maxMmPerPixel
+        ? describe(input, page, grid, 'fit')
+        : describe(input, page, grid, 'fixed', scale)
+    );
+  };
+
+  for (let count = 1; count <= Math.min(limit.horizontal, MAX_PAGES_PER_AXIS); count++) {
+    addForScale(gridCapacity({ horizontal: count, vertical: 1 }, input.overlap, page).width / input.imageWidth);
+  }
+  for (let count = 1; count <= Math.min(limit.vertical, MAX_PAGES_PER_AXIS); count++) {
+    addForScale(gridCapacity({ horizontal: 1, vertical: count }, input.overlap, page).height / input.imageHeight);
+  }
+  return candidates;
+};
+
+/**
+ * Avalia retrato e paisagem e devolve as melhores grades para o objetivo. Com tamanho
+ * fixo vêm primeiro as que imprimem exatamente o tamanho pedido, e entre elas vence a
+ * menor quantidade de folhas; com resolução mínima, o maior pôster. Em ambos os casos
+ * o desempate é o desperdício de papel.
+ */
+export const suggestLayouts = (input: SuggestionInput, goal: LayoutGoal, count = 5): LayoutSuggestion[] => {
+  const candidates = ORIENTATIONS.flatMap((orientation) => {
+    const page: PageSetup = {
+      paper: input.paper,
+      orientation,
+      margins: orientMargins(input.margins, orientation)
+    };
+    return goal.kind === 'size'
+      ? sizeCandidates(input, page, goal.width, goal.height)
+      : dpiCandidates(input, page, goal.minDpi);
+  });
+
+  const unique = new Map<string, LayoutSuggestion>();
+  for (const candidate of candidates) {
+    const key = `${candidate.orientation}-${candidate.horizontal}x${candidate.vertical}-${candidate.mmPerPixel.toFixed(6)}`;
+    unique.set(key, candidate);
+  }
+
+  return Array.from(unique.values())
+    .sort((a, b) =>
+      goal.kind === 'size'
+        ? Number(b.scale === 'fixed') - Number(a.scale === 'fixed') || a.pages - b.pages || a.waste - b.waste
+        : b.posterWidth * b.posterHeight - a.posterWidth * a.posterHeight || a.waste - b.waste
+    )
+    .slice(0, count);
+};
+
+/**
+ * Escolhe a orientação para a grade atual (ou para o tamanho final, se houver):
+ * vence a que imprime a maior área de imagem e, no empate, a que usa menos folhas.
+ */
+export const chooseOrientation = (
+  input: SuggestionInput,
+  grid: { horizontal: number; vertical: number },
+  target: { width: number; height: number } | null
+): Orientation => {
+  const [portrait, landscape] = ORIENTATIONS.map((orientation) => {
+    const page: PageSetup = {
+      paper: input.paper,
+      orientation,
+      margins: orientMargins(input.margins, orientation)
+    };
+    return target
+      ? describe(input, page, gridForPosterSize(target.width, target.height, input.overlap, page), 'fixed', target.width / input.imageWidth)
+      : describe(input, page, grid, 'fit');
+  });
+
+  const portraitArea = portrait.posterWidth * portrait.posterHeight;
+  const landscapeArea = landscape.posterWidth * landscape.posterHeight;
+  if (Math.abs(portraitArea - landscapeArea) > 1) {
+    return landscapeArea > portraitArea ? 'landscape' : 'portrait';
+  }
+  return landscape.pages < portrait.pages ? 'landscape' : 'portrait';
+};
@@ -0,0 +1,53 @@
+import { tileCoordinate, type PosterLayout, type TileLayout } from "@/lib/layout";
+import type { PaperSize } from "@/lib/paper";
+import { effectiveDpi } from "@/lib/resolution";
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp'
+};
+
+// A extensão vem do arquivo gerado: sem suporte a WebP o navegador devolve PNG
+export const tileFileName = (tile: TileLayout, mimeType: string) =>
+  `poster_${tileCoordinate(tile.col, tile.row)}.${FILE_EXTENSIONS[mimeType] ?? 'png'}`;
+
+const round = (mm: number) => Math.round(mm * 100) / 100;
+
+/**
+ * Descrição da grade gravada como layout.json junto das imagens: onde cada arquivo
+ * é impresso na página (mm) e quais bordas têm sobreposição com a vizinha.
+ * Páginas em branco puladas continuam na grade, sem arquivo.
+ */
+export const layoutManifest = (
+  layout: PosterLayout,
+  paper: PaperSize,
+  files: Array<string | null>,
+  skipped: ReadonlySet<number> = new Set()
+) => ({
+  paper: { id: paper.id, name: paper.name },
+  orientation: layout.orientation,
+  unit: 'mm',
+  page: { width: round(layout.pageWidth), height: round(layout.pageHeight) },
+  printable: {
+    x: round(layout.printable.x),
+    y: round(layout.printable.y),
+    width: round(layout.printable.width),
+    height: round(layout.printable.height)
+  },
+  poster: { width: round(layout.posterWidth), height: round(layout.posterHeight) },
+  dpi: Math.round(effectiveDpi(layout.mmPerPixel)),
+  overlap: round(layout.overlap),
+  columns: layout.columns,
+  rows: layout.rows,
+  tiles: layout.tiles.map((tile) => ({
+    page: tile.index + 1,
+    coordinate: tileCoordinate(tile.col, tile.row),
+    column: tile.col + 1,
+    row: tile.row + 1,
+    file: files[tile.index],
+    blank: skipped.has(tile.index),
+    placement: { x: round(tile.x), y: round(tile.y), width: round(tile.width), height: round(tile.height) },
+    overlap: tile.overlap
+  }))
+});
@@ -0,0 +1,50 @@
+/** Rotação (horária) e espelhamentos aplicados à imagem antes de fatiar, sem alterar o arquivo */
+export interface ImageTransform {
+  rotation: 0 | 90 | 180 | 270;
+  flipH: boolean;
+  flipV: boolean;
+}
+
+export const IDENTITY_TRANSFORM: ImageTransform = { rotation: 0, flipH: false, flipV: false };
+
+export const isIdentityTransform = (transform: ImageTransform) =>
+  transform.rotation === 0 && !transform.flipH && !transform.flipV;
+
+// Dimensões da imagem depois da rotação
+export const orientedSize = (width: number, height: number, transform: ImageTransform) =>
+  transform.rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+
+export const rotateTransform = (transform: ImageTransform, degrees: 90 | -90): ImageTransform => ({
+  ...transform,
+  rotation: ((transform.rotation + degrees + 360) % 360) as ImageTransform['rotation']
+});
+
+// Espelha a imagem como ela aparece na tela: com 90°/270° os eixos originais estão trocados
+export const flipTransform = (transform: ImageTransform, axis: 'horizontal' | 'vertical'): ImageTransform => {
+  const swapped = transform.rotation % 180 !== 0;
+  const flipsH = (axis === 'horizontal') !== swapped;
+  return flipsH
+    ? { ...transform, flipH: !transform.flipH }
+    : { ...transform, flipV: !transform.flipV };
+};
+
+/**
+ * Matriz que leva coordenadas da imagem original para a imagem orientada: primeiro
+ * os espelhamentos, depois a rotação. Serve tanto para o canvas quanto para CSS.
+ */
+export const orientationMatrix = (width: number, height: number, transform: ImageTransform) => {
+  const flip = new DOMMatrix([
+    transform.flipH ? -1 : 1, 0,
+    0, transform.flipV ? -1 : 1,
+    transform.flipH ? width : 0, transform.flipV ? height : 0
+  ]);
+
+  const rotation = {
+    0: new DOMMatrix(),
+    90: new DOMMatrix([0, 1, -1, 0, height, 0]),
+    180: new DOMMatrix([-1, 0, 0, -1, width, height]),
+    270: new DOMMatrix([0, -1, 1, 0, 0, width])
+  }[transform.rotation];
+
+  return rotation.multiply(flip);
+};
@@ -0,0 +1,243 @@
+import { imageBands, openRowDecoder, type RowDecoder } from "@/lib/band-decoder";
+import { exifOrientationTransform } from "@/lib/exif";
+import { buildPlotterPdf, buildPosterPdf, type TileFormat } from "@/lib/pdf";
+import type { TileLayout } from "@/lib/layout";
+import { withDensity } from "@/lib/image-density";
+import {
+  FULL_DECODE_LIMIT,
+  drawTile,
+  encodeTile,
+  encodedTileSizes,
+  inkCoverage,
+  tileCanvasSize,
+  tileHasImage,
+  tileRegion,
+  type PdfJob,
+  type RenderRequest,
+  type RenderResponse,
+  type SliceJob,
+  type TileImageFormat,
+  type ZipJob
+} from "@/lib/render";
+import { layoutManifest, tileFileName } from "@/lib/tile-export";
+import { IDENTITY_TRANSFORM, orientationMatrix, orientedSize } from "@/lib/transform";
+import { createZip } from "@/lib/zip";
+
+const MM_PER_INCH = 25.4;
+
+// Roda fora da thread principal: fatiar e montar o PDF não travam a página
+const post = (message: RenderResponse) => self.postMessage(message);
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Sem memória para decodificar, o navegador só rejeita a promessa, sem dizer o motivo
+const decode = (bitmap: Promise<ImageBitmap>) =>
+  bitmap.catch(() => {
+    throw new Error(
+      'A imagem é grande demais para o navegador decodificar. Reduza a resolução ou salve como PNG ou JPEG não progressivo, que são lidos por faixas.'
+    );
+  });
+
+const context2d = (canvas: OffscreenCanvas) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D indisponível no worker');
+  return ctx;
+};
+
+// Recebe cada página pronta, com o canvas ainda desenhado
+type TilePainted = (tile: TileLayout, canvas: OffscreenCanvas) => Promise<void>;
+
+// Pixels das páginas montadas ao mesmo tempo numa passada pelo arquivo, e de cada faixa decodificada
+const PASS_PIXELS = 2 ** 26;
+const BAND_PIXELS = 2 ** 22;
+
+// Imagem decodificada de uma vez pelo navegador; cada página desenha a sua parte
+const paintDecoded = async (job: SliceJob, tiles: TileLayout[], painted: TilePainted) => {
+  const image = await decode(createImageBitmap(job.image, { imageOrientation: job.imageOrientation }));
+  const region = { x: 0, y: 0, width: image.width, height: image.height };
+  const orient = orientationMatrix(job.imageWidth, job.imageHeight, job.transform);
+  const canvas = new OffscreenCanvas(1, 1);
+  const ctx = context2d(canvas);
+
+  try {
+    for (const tile of tiles) {
+      const size = tileCanvasSize(tile, job.maxTileSide);
+      canvas.width = size.width;
+      canvas.height = size.height;
+      drawTile(ctx, image, region, tile, job.source, orient);
+      await painted(tile, canvas);
+    }
+  } finally {
+    image.close();
+  }
+};
+
+// Decodificador por faixas, com o EXIF aplicado como o navegador faria; null se o arquivo não permitir
+const openBands = async (job: SliceJob) => {
+  const decoder = await openRowDecoder(job.image);
+  if (!decoder) return null;
+
+  const exif = job.imageOrientation === 'from-image' ? await exifOrientationTransform(job.image) : IDENTITY_TRANSFORM;
+  const size = orientedSize(decoder.width, decoder.height, exif);
+  // Dimensões diferentes das que o navegador mediu: melhor deixar a decodificação com ele
+  if (size.width !== job.imageWidth || size.height !== job.imageHeight) return null;
+
+  const orient = orientationMatrix(job.imageWidth, job.imageHeight, job.transform)
+    .multiply(orientationMatrix(decoder.width, decoder.height, exif));
+  return { decoder, orient };
+};
+
+/**
+ * Imagem lida do arquivo em faixas, de cima para baixo. As páginas são agrupadas em
+ * passadas que cabem juntas na memória; cada passada lê só as linhas que elas cobrem
+ * e desenha cada faixa em todas as páginas que ela atravessa.
+ */
+const paintBands = async (job: SliceJob, tiles: TileLayout[], decoder: RowDecoder, orient: DOMMatrix, painted: TilePainted) => {
+  const pages = tiles
+    .map((tile) => ({
+      tile,
+      size: tileCanvasSize(tile, job.maxTileSide),
+      region: tileRegion(tile, job.source, orient, decoder.width, decoder.height)
+    }))
+    .sort((a, b) => a.region.y - b.region.y);
+  const bandRows = Math.max(1, Math.floor(BAND_PIXELS / decoder.width));
+
+  for (let next = 0; next < pages.length;) {
+    const pass = [pages[next++]];
+    let pixels = pass[0].size.width * pass[0].size.height;
+    while (next < pages.length && pixels + pages[next].size.width * pages[next].size.height <= PASS_PIXELS) {
+      pixels += pages[next].size.width * pages[next].size.height;
+      pass.push(pages[next++]);
+    }
+
+    const canvases = pass.map((page) => {
+      const canvas = new OffscreenCanvas(page.size.width, page.size.height);
+      return { ...page, canvas, ctx: context2d(canvas) };
+    });
+    const top = Math.min(...pass.map((page) => page.region.y));
+    const bottom = Math.max(...pass.map((page) => page.region.y + page.region.height));
+    // Faixas vizinhas repetem as linhas de um pixel da página reduzida, para a emenda não aparecer
+    const overlap = Math.ceil(Math.max(...pass.map((page) => page.tile.sw / page.size.width))) + 1;
+
+    for await (const band of imageBands(decoder, bandRows, overlap, top, bottom)) {
+      const image = await createImageBitmap(new ImageData(band.pixels, decoder.width, band.height));
+      const region = { x: 0, y: band.y, width: decoder.width, height: band.height };
+      for (const page of canvases) {
+        if (band.y < page.region.y + page.region.height && band.y + band.height > page.region.y) {
+          drawTile(page.ctx, image, region, page.tile, job.source, orient);
+        }
+      }
+      image.close();
+    }
+
+    for (const page of canvases) {
+      await painted(page.tile, page.canvas);
+      // Libera a página antes da próxima passada
+      page.canvas.width = 0;
+    }
+  }
+};
+
+// Pedaços da pré-visualização saem em PNG; no PDF, no formato escolhido. Só a
+// pré-visualização mede a tinta de cada página (0 sem imagem)
+const sliceTiles = async (
+  id: number,
+  job: SliceJob,
+  format: TileFormat | TileImageFormat = 'png',
+  quality = 1,
+  measureInk = false
+) => {
+  const { tiles } = job.layout;
+  const pieces: Array<Blob | null> = tiles.map(() => null);
+  const coverage: number[] = measureInk ? tiles.map(() => 0) : [];
+  const withImage = tiles.filter(tileHasImage);
+  let done = tiles.length - withImage.length;
+
+  const painted: TilePainted = async (tile, canvas) => {
+    // Medida antes de codificar: o JPEG preenche a transparência de branco
+    if (measureInk) coverage[tile.index] = inkCoverage(canvas);
+    pieces[tile.index] = await encodeTile(canvas, format, quality);
+    post({ type: 'progress', id, stage: 'slice', done: ++done, total: tiles.length });
+  };
+
+  const bands = job.imageWidth * job.imageHeight > FULL_DECODE_LIMIT ? await openBands(job) : null;
+  if (bands) await paintBands(job, withImage, bands.decoder, bands.orient, painted);
+  else await paintDecoded(job, withImage, painted);
+
+  return { pieces, coverage };
+};
+
+// Páginas sem imagem viram string vazia, como o PDF e a pré-visualização esperam
+const toDataUrls = (pieces: Array<Blob | null>) =>
+  Promise.all(pieces.map((piece) => (piece ? blobToDataUrl(piece) : '')));
+
+// Todas as páginas ficam em memória, em base64, até o jsPDF gerar o arquivo: o PDF
+// precisa de RAM para o pôster inteiro na resolução de impressão
+const assemblePdf = async (id: number, job: PdfJob) => {
+  const sliced = await sliceTiles(id, job, job.options.format, job.options.jpegQuality);
+  const pieces = await toDataUrls(sliced.pieces);
+  const pdf = job.singleSheet
+    ? buildPlotterPdf(job.layout, pieces[0], job.options)
+    : buildPosterPdf(
+      job.layout,
+      pieces,
+      job.options,
+      job.calibration,
+      (done, total) => post({ type: 'progress', id, stage: 'pdf', done, total }),
+      new Set(job.skipped)
+    );
+  post({ type: 'pdf', id, pdf: pdf.output('blob') });
+};
+
+// Pixels do arquivo por polegada do trecho impresso na página
+const tileDpi = (tile: TileLayout) => {
+  const size = tileCanvasSize(tile);
+  return { x: size.width / (tile.width / MM_PER_INCH), y: size.height / (tile.height / MM_PER_INCH) };
+};
+
+const packTiles = async (id: number, job: ZipJob) => {
+  const sliced = await sliceTiles(id, job, job.format, job.quality);
+  const skipped = new Set(job.skipped);
+  const pieces = await Promise.all(job.layout.tiles.map((tile) => {
+    const piece = sliced.pieces[tile.index];
+    if (!piece || skipped.has(tile.index)) return null;
+    const dpi = tileDpi(tile);
+    return withDensity(piece, dpi.x, dpi.y);
+  }));
+  const files = job.layout.tiles.map((tile) => {
+    const piece = pieces[tile.index];
+    return piece ? tileFileName(tile, piece.type) : null;
+  });
+
+  const entries = pieces.flatMap((piece, index) => (piece ? [{ name: files[index], data: piece }] : []));
+  entries.push({
+    name: 'layout.json',
+    data: new Blob([JSON.stringify(layoutManifest(job.layout, job.paper, files, skipped), null, 2)], { type: 'application/json' })
+  });
+
+  post({ type: 'zip', id, zip: await createZip(entries) });
+};
+
+self.addEventListener('message', async (event: MessageEvent<RenderRequest>) => {
+  const { id, ...request } = event.data;
+  try {
+    if (request.type === 'slice') {
+      const { pieces, coverage } = await sliceTiles(id, request, 'png', 1, true);
+      post({ type: 'sliced', id, pieces: await toDataUrls(pieces), coverage });
+    } else if (request.type === 'pdf') {
+      await assemblePdf(id, request);
+    } else if (request.type === 'zip') {
+      await packTiles(id, request);
+    } else {
+      post({ type: 'estimated', id, bytes: await encodedTileSizes(request) });
+    }
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  }
+});